@@ -0,0 +1,21 @@
+/**
+ * 生成 Essential 格式的 JSON Schema：npm run schema
+ *
+ * 输出到 schemas/essential-flow.schema.json，src/__tests__/json-schema.test.ts 检查文件与代码保持同步
+ */
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { createFlowJsonSchema } from "../src/json-schema";
+
+const outputPath = join(
+  __dirname,
+  "..",
+  "schemas",
+  "essential-flow.schema.json"
+);
+
+writeFileSync(
+  outputPath,
+  JSON.stringify(createFlowJsonSchema(), null, 2) + "\n"
+);
+console.log(`Wrote ${outputPath}`);
@@ -0,0 +1,34 @@
+import { applyBaseline, createBaseline } from "../baseline";
+import { lintFlow } from "../index";
+import { createEdge, createFlow } from "./fixtures";
+
+describe("Baseline", () => {
+  it("hides known issues", () => {
+    const flow = createFlow();
+    flow.edges[0] = createEdge("e1", "a", "b", "missing_input");
+    const results = [{ filePath: "flow.json", issues: lintFlow(flow) }];
+
+    expect(applyBaseline(results, createBaseline(results))).toEqual([
+      { filePath: "flow.json", issues: [] },
+    ]);
+  });
+
+  it("reports a new issue that replaces a fixed one of the same rule", () => {
+    const before = createFlow();
+    before.edges[0] = createEdge("e1", "a", "b", "missing_input");
+    const baseline = createBaseline([
+      { filePath: "flow.json", issues: lintFlow(before) },
+    ]);
+
+    const after = createFlow();
+    after.edges[1] = createEdge("e2", "a", "c", "other_input");
+    const [result] = applyBaseline(
+      [{ filePath: "flow.json", issues: lintFlow(after) }],
+      baseline
+    );
+
+    expect(result.issues.map((issue) => [issue.code, issue.elementId])).toEqual(
+      [["invalid-edge-target-handle", "e2"]]
+    );
+  });
+});
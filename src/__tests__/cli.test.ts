@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { run } from "../cli";
+import { createCodeNode, createEdge, createFlow } from "./fixtures";
+
+/**
+ * 在临时目录中写入文件并运行 fn，结束后删除目录
+ */
+function withFiles(
+  files: Record<string, unknown>,
+  fn: (cwd: string) => void
+): void {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "tfl-lint-"));
+  try {
+    Object.keys(files).forEach((name) => {
+      const filePath = path.join(cwd, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(files[name]));
+    });
+    fn(cwd);
+  } finally {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 运行命令行，收集退出码与输出
+ */
+function runCli(argv: string[], cwd: string) {
+  let stdout = "";
+  let stderr = "";
+  const code = run(argv, {
+    cwd,
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { code, stdout, stderr };
+}
+
+// 有 dead-end-node 警告、没有错误的工作流
+const warningFlow = createFlow();
+
+// 边指向不存在的输入，产生错误
+const errorFlow = createFlow();
+errorFlow.edges[0] = createEdge("e1", "a", "b", "missing_input");
+
+// 没有任何问题的工作流
+const cleanFlow = { nodes: [createCodeNode("a")], edges: [] };
+
+describe("CLI", () => {
+  it("exits with 0 for clean flows and 1 when errors are reported", () => {
+    withFiles({ "clean.json": cleanFlow, "broken.json": errorFlow }, (cwd) => {
+      expect(runCli(["--mode", "node", "clean.json"], cwd)).toEqual({
+        code: 0,
+        stdout: "",
+        stderr: "",
+      });
+      expect(runCli(["broken.json"], cwd).code).toEqual(1);
+    });
+  });
+
+  it("fails when warnings exceed --max-warnings", () => {
+    withFiles({ "flow.json": warningFlow }, (cwd) => {
+      expect(runCli(["flow.json"], cwd).code).toEqual(0);
+      expect(runCli(["--max-warnings", "3", "flow.json"], cwd).code).toEqual(0);
+
+      const result = runCli(["--max-warnings=2", "flow.json"], cwd);
+      expect([result.code, result.stderr]).toEqual([
+        1,
+        "tfl-lint found too many warnings (maximum: 2).\n",
+      ]);
+      expect(runCli(["--strict", "flow.json"], cwd).code).toEqual(1);
+    });
+  });
+
+  it("expands globs and reports each matched file", () => {
+    withFiles(
+      {
+        "flows/a.json": warningFlow,
+        "flows/nested/b.json": errorFlow,
+        "flows/notes.txt": "",
+      },
+      (cwd) => {
+        const result = runCli(["--format", "json", "flows/**/*.json"], cwd);
+        expect(
+          JSON.parse(result.stdout).map(
+            (file: { filePath: string }) => file.filePath
+          )
+        ).toEqual(["flows/a.json", "flows/nested/b.json"]);
+        expect(result.code).toEqual(1);
+      }
+    );
+  });
+
+  it("exits with 2 for usage errors", () => {
+    withFiles({ "flow.json": cleanFlow }, (cwd) => {
+      expect(
+        [
+          [],
+          ["--mode", "graph", "flow.json"],
+          ["--format", "xml", "flow.json"],
+          ["--max-warnings", "many", "flow.json"],
+          ["--unknown", "flow.json"],
+          ["missing/*.json"],
+        ].map((argv) => runCli(argv, cwd).code)
+      ).toEqual([2, 2, 2, 2, 2, 2]);
+      expect(runCli(["missing/*.json"], cwd).stderr.split("\n")[0]).toEqual(
+        "tfl-lint: No files matching 'missing/*.json' were found"
+      );
+    });
+  });
+
+  it("reports unreadable files as errors", () => {
+    withFiles({ "flow.json": cleanFlow }, (cwd) => {
+      fs.writeFileSync(path.join(cwd, "flow.json"), "{");
+      const result = runCli(["--format", "json", "flow.json"], cwd);
+      expect(result.code).toEqual(1);
+      expect(
+        JSON.parse(result.stdout)[0].issues.map(
+          (issue: { code: string }) => issue.code
+        )
+      ).toEqual(["unreadable-file"]);
+    });
+  });
+});
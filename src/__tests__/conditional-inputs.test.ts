@@ -0,0 +1,93 @@
+import { lintFlow } from "../index";
+import { FlowData } from "../types/lint";
+import { createCodeNode, createEdge, createNode } from "./fixtures";
+
+const CONDITIONAL_CODES = [
+  "missing-conditional-input",
+  "forbidden-conditional-input",
+];
+
+function conditionalIssues(flow: FlowData) {
+  return lintFlow(flow, { mode: "node" })
+    .filter((issue) => CONDITIONAL_CODES.includes(issue.code))
+    .map((issue) => [issue.code, issue.severity, issue.message]);
+}
+
+/**
+ * 只有一个 rootdata_node 的工作流
+ */
+function createRootdataFlow(values: Record<string, unknown>): FlowData {
+  return { nodes: [createNode("r", "rootdata_node", values)], edges: [] };
+}
+
+describe("Conditional inputs", () => {
+  it("requires the inputs of the selected operation", () => {
+    expect(
+      conditionalIssues(createRootdataFlow({ operation: "search" }))
+    ).toEqual([
+      [
+        "missing-conditional-input",
+        "error",
+        'Input "query" is required when operation is "search"',
+      ],
+    ]);
+    expect(
+      conditionalIssues(
+        createRootdataFlow({ operation: "search", query: "uniswap" })
+      )
+    ).toEqual([]);
+  });
+
+  it("warns about constraints the backend has not confirmed", () => {
+    expect(
+      conditionalIssues(
+        createRootdataFlow({
+          operation: "project_detail",
+          project_id: 1,
+          org_id: 2,
+        })
+      )
+    ).toEqual([
+      [
+        "forbidden-conditional-input",
+        "warning",
+        'Input "org_id" must be empty when operation is "project_detail"',
+      ],
+    ]);
+    expect(
+      conditionalIssues(createRootdataFlow({ operation: "id_map" }))
+    ).toEqual([
+      [
+        "missing-conditional-input",
+        "warning",
+        'Input "type" is required when operation is "id_map"',
+      ],
+    ]);
+
+    const chaincatcher = createNode("c", "chaincatcher_node", {
+      content_type: "article",
+      news_flash_type: "hot",
+    });
+    expect(conditionalIssues({ nodes: [chaincatcher], edges: [] })).toEqual([
+      [
+        "forbidden-conditional-input",
+        "warning",
+        'Input "news_flash_type" must be empty when content_type is "article"',
+      ],
+    ]);
+  });
+
+  it("treats connected inputs as provided", () => {
+    const flow = createRootdataFlow({ operation: "search", query: undefined });
+    flow.nodes.unshift(createCodeNode("a", -300));
+    flow.edges.push(createEdge("e1", "a", "r", "query"));
+    expect(conditionalIssues(flow)).toEqual([]);
+  });
+
+  it("skips conditions whose input is connected", () => {
+    const flow = createRootdataFlow({ operation: "search" });
+    flow.nodes.unshift(createCodeNode("a", -300));
+    flow.edges.push(createEdge("e1", "a", "r", "operation"));
+    expect(conditionalIssues(flow)).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConfigError, LintConfig, resolveConfig } from "../config";
+import { findConfigFile, loadConfig } from "../config-file";
+
+/**
+ * 运行 fn 并返回抛出的错误消息
+ */
+function getErrorMessage(fn: () => unknown): string | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error) {
+    expect(error instanceof ConfigError).toEqual(true);
+    return (error as Error).message;
+  }
+}
+
+describe("resolveConfig", () => {
+  it("expands presets with later settings taking precedence", () => {
+    expect(
+      resolveConfig({
+        extends: "production-trading",
+        rules: { "excessive-slippage": "warning" },
+        tradeSafety: { maxAmount: 100 },
+      })
+    ).toEqual({
+      strict: true,
+      rules: {
+        "plaintext-secret": "error",
+        "leaked-secret": "error",
+        "excessive-slippage": "warning",
+        "prerelease-version": "error",
+        "invalid-vault-source": "error",
+      },
+      tradeSafety: { maxSlippage: 2, maxAmount: 100 },
+    });
+  });
+
+  it("merges ignored node types from every preset", () => {
+    expect(
+      resolveConfig({
+        extends: ["recommended", "strict"],
+        mode: "node",
+        ignoreNodeTypes: ["code_node"],
+      })
+    ).toEqual({
+      rules: {},
+      mode: "node",
+      strict: true,
+      ignoreNodeTypes: ["code_node"],
+    });
+  });
+
+  it("rejects unknown presets and invalid settings", () => {
+    expect(
+      [
+        { extends: "eslint:recommended" },
+        { rules: { "isolated-node": "warn" } },
+        { mode: "graph" },
+        { rules: ["isolated-node"] },
+      ].map((config) =>
+        getErrorMessage(() => resolveConfig(config as LintConfig))
+      )
+    ).toEqual([
+      "Unknown preset 'eslint:recommended', expected one of: recommended, strict, production-trading",
+      'Config: invalid rules["isolated-node"] "warn", expected one of: error, warning, off',
+      'Config: invalid mode "graph", expected one of: flow, node',
+      "Config: rules must be an object mapping rule codes to settings",
+    ]);
+  });
+});
+
+describe("Config files", () => {
+  it("discovers the nearest config file from parent directories", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "tfl-lint-"));
+    try {
+      const nested = path.join(root, "flows", "live");
+      fs.mkdirSync(nested, { recursive: true });
+      fs.writeFileSync(
+        path.join(root, ".tfllintrc.json"),
+        JSON.stringify({ extends: "strict", rules: { "isolated-node": "off" } })
+      );
+
+      expect(findConfigFile(nested)).toEqual(
+        path.join(root, ".tfllintrc.json")
+      );
+      expect(loadConfig(nested)).toEqual({
+        filePath: path.join(root, ".tfllintrc.json"),
+        options: { strict: true, rules: { "isolated-node": "off" } },
+      });
+
+      // 更近的配置文件优先
+      fs.writeFileSync(path.join(nested, ".tfllintrc"), "{}");
+      expect(findConfigFile(nested)).toEqual(path.join(nested, ".tfllintrc"));
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("reports unreadable and invalid config files", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "tfl-lint-"));
+    try {
+      const filePath = path.join(root, ".tfllintrc");
+      fs.writeFileSync(filePath, "[]");
+      expect(getErrorMessage(() => loadConfig(root))).toEqual(
+        `Config file ${filePath} must export an object`
+      );
+
+      fs.writeFileSync(filePath, JSON.stringify({ strict: true, mode: 1 }));
+      expect(getErrorMessage(() => loadConfig(root))).toEqual(
+        `Config file ${filePath}: invalid mode 1, expected one of: flow, node`
+      );
+
+      fs.writeFileSync(filePath, "{");
+      expect(
+        getErrorMessage(() => loadConfig(root))?.startsWith(
+          `Cannot load config file ${filePath}: `
+        )
+      ).toEqual(true);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,174 @@
+import { toEssential, toFull } from "../converters";
+import { EditorFullFlow, EssentialFlow } from "../types/weather";
+import { createEdge, createNode } from "./fixtures";
+
+const essentialFlow: EssentialFlow = {
+  name: "BTC alert",
+  thumbnailUrl: "https://example.com/thumb.png",
+  lintIgnore: [{ code: "isolated-node", reason: "draft" }],
+  nodes: [
+    {
+      id: "price",
+      type: "price_node",
+      version: "^1.0.0",
+      position: { x: 0, y: 0 },
+      data: {
+        title: "Price",
+        description: "BTC price",
+        collection: "input",
+        inputs: [
+          {
+            id: "source",
+            title: "Source",
+            type: "text",
+            inputType: "select",
+            value: "coingecko",
+          },
+          {
+            id: "symbol",
+            title: "Symbol",
+            type: "text",
+            inputType: "text",
+            required: true,
+            value: "BTC",
+            isHidden: false,
+          },
+        ],
+        outputs: [{ id: "data", title: "Data", type: "object" }],
+      },
+    },
+    {
+      id: "telegram",
+      type: "telegram_sender_node",
+      position: { x: 300, y: 0 },
+      lintIgnore: [{ code: "unfed-node", reason: "fed at runtime" }],
+      data: {
+        title: "Telegram",
+        description: "Notify",
+        collection: "core",
+        inputs: [
+          {
+            id: "messages",
+            title: "Messages",
+            type: "text",
+            inputType: "text",
+          },
+        ],
+        outputs: [
+          {
+            id: "error_handle",
+            title: "Error",
+            type: "text",
+            isDeleted: true,
+          },
+        ],
+      },
+    },
+  ],
+  edges: [
+    {
+      id: "e1",
+      source: "price",
+      target: "telegram",
+      sourceHandle: "data",
+      targetHandle: "messages",
+    },
+  ],
+};
+
+describe("converters", () => {
+  it("round-trips Essential -> Full -> Essential", () => {
+    expect(toEssential(toFull(essentialFlow))).toEqual(essentialFlow);
+  });
+
+  it("round-trips Full -> Essential -> Full", () => {
+    const fullFlow = toFull(essentialFlow);
+    expect(toFull(toEssential(fullFlow))).toEqual(fullFlow);
+  });
+
+  it("fills UI fields from node definitions", () => {
+    const fullFlow = toFull(essentialFlow);
+    const [price, telegram] = fullFlow.nodes;
+
+    expect(price.data.id).toEqual("price");
+    expect(price.data.edges.map((edge) => edge.id)).toEqual(["e1"]);
+    expect(price.data.inputs[0].handle).toEqual({ color: "sky" });
+    expect(price.data.inputs[0].options).toEqual(["coingecko"]);
+    expect(price.data.inputs[1].options).toEqual(undefined);
+    expect(telegram.data.outputs[0].handle).toEqual({ color: "rose" });
+    expect(fullFlow.edges[0].type).toEqual("default");
+  });
+
+  it("fills unset, unconnected inputs with schema defaults", () => {
+    const swap = (id: string, slippery?: unknown) =>
+      createNode(id, "swap_node", { from_token: "USDC", slippery }, [
+        "trade_receipt",
+      ]);
+    const fullFlow = toFull({
+      name: "Swap",
+      nodes: [swap("unset"), swap("set", "3"), swap("wired")],
+      edges: [createEdge("e1", "unset", "wired", "slippery", "trade_receipt")],
+    });
+    expect(
+      fullFlow.nodes.map((node) =>
+        node.data.inputs.map((input) => [input.id, input.value])
+      )
+    ).toEqual([
+      [
+        ["from_token", "USDC"],
+        ["slippery", 1],
+      ],
+      [
+        ["from_token", "USDC"],
+        ["slippery", "3"],
+      ],
+      [
+        ["from_token", "USDC"],
+        ["slippery", undefined],
+      ],
+    ]);
+  });
+
+  it("strips UI and editor runtime fields", () => {
+    const fullFlow = toFull(essentialFlow);
+    const editorFlow: EditorFullFlow = {
+      ...fullFlow,
+      nodes: fullFlow.nodes.map((node) => ({
+        ...node,
+        className: "selected-node",
+        width: 240,
+        height: 120,
+        selected: true,
+        dragging: false,
+        positionAbsolute: { x: 0, y: 0 },
+        data: {
+          ...node.data,
+          collection: null,
+          menuItems: [{ key: "delete", label: "Delete" }],
+          isDeepEdit: true,
+          isFlowExecuting: false,
+          signals: [],
+          handleDeleteNode: () => undefined,
+          inputs: node.data.inputs.map((input) => ({
+            ...input,
+            isDeleted: false,
+            disabled: true,
+            layout: { group: "main", order: 1 },
+            _instanceState: { hasLoaded: true },
+            preload: { loader: () => Promise.resolve([]) },
+          })),
+          outputs: node.data.outputs,
+        },
+      })),
+      edges: fullFlow.edges.map((edge) => ({
+        ...edge,
+        animated: true,
+        selected: false,
+      })),
+    };
+
+    const stored = toEssential(editorFlow);
+    expect(stored).toEqual(essentialFlow);
+    expect(JSON.parse(JSON.stringify(stored))).toEqual(stored);
+  });
+});
@@ -0,0 +1,84 @@
+import { lintFlow } from "../index";
+import { EssentialEdge } from "../types/weather";
+import { FlowData } from "../types/lint";
+import { createCodeNode, createEdge } from "./fixtures";
+
+/**
+ * 由 [source, target] 列表创建 code_node 工作流，边 id 为 source-target
+ */
+function createGraphFlow(links: Array<[string, string]>): FlowData {
+  const ids: string[] = [];
+  const edges: EssentialEdge[] = links.map(([source, target]) => {
+    [source, target].forEach((id) => !ids.includes(id) && ids.push(id));
+    return createEdge(`${source}-${target}`, source, target);
+  });
+  return {
+    nodes: ids.map((id, index) => createCodeNode(id, index * 300)),
+    edges,
+  };
+}
+
+function cycleIssues(flow: FlowData) {
+  return lintFlow(flow)
+    .filter((issue) => issue.code === "circular-dependency")
+    .map((issue) => [issue.elementId, issue.message, issue.related]);
+}
+
+describe("Circular dependencies", () => {
+  it("reports one cycle per strongly connected component", () => {
+    const flow = createGraphFlow([
+      ["a", "b"],
+      ["b", "a"],
+      ["b", "c"],
+      ["c", "d"],
+      ["d", "c"],
+    ]);
+    expect(cycleIssues(flow)).toEqual([
+      [
+        "a",
+        "Circular dependency detected: a -> b -> a",
+        { nodeIds: ["a", "b"], edgeIds: ["a-b", "b-a"] },
+      ],
+      [
+        "c",
+        "Circular dependency detected: c -> d -> c",
+        { nodeIds: ["c", "d"], edgeIds: ["c-d", "d-c"] },
+      ],
+    ]);
+  });
+
+  it("counts nodes of the same component outside the reported cycle", () => {
+    const flow = createGraphFlow([
+      ["a", "b"],
+      ["b", "a"],
+      ["b", "c"],
+      ["c", "a"],
+    ]);
+    expect(cycleIssues(flow)).toEqual([
+      [
+        "a",
+        "Circular dependency detected: a -> b -> a (1 more node is part of the same cycle group)",
+        { nodeIds: ["a", "b"], edgeIds: ["a-b", "b-a"] },
+      ],
+    ]);
+  });
+
+  it("reports self loops and ignores acyclic flows", () => {
+    expect(cycleIssues(createGraphFlow([["a", "a"]]))).toEqual([
+      [
+        "a",
+        "Circular dependency detected: a -> a",
+        { nodeIds: ["a"], edgeIds: ["a-a"] },
+      ],
+    ]);
+    expect(
+      cycleIssues(
+        createGraphFlow([
+          ["a", "b"],
+          ["b", "c"],
+          ["a", "c"],
+        ])
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { planExecution } from "../index";
+import { FlowData } from "../types/lint";
+import { createCodeNode, createEdge, createFlow } from "./fixtures";
+
+/**
+ * a → b → d、a → c → d 的菱形工作流，外加独立节点 e
+ */
+function createDiamondFlow(): FlowData {
+  return {
+    nodes: ["a", "b", "c", "d", "e"].map((id, index) =>
+      createCodeNode(id, index * 300)
+    ),
+    edges: [
+      createEdge("e1", "a", "b"),
+      createEdge("e2", "a", "c"),
+      createEdge("e3", "b", "d"),
+      createEdge("e4", "c", "d"),
+    ],
+  };
+}
+
+function getErrorMessage(fn: () => unknown): string | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+describe("planExecution", () => {
+  it("orders nodes in parallelizable stages", () => {
+    expect(planExecution(createDiamondFlow())).toEqual({
+      order: ["a", "e", "b", "c", "d"],
+      stages: [["a", "e"], ["b", "c"], ["d"]],
+      cycles: [],
+    });
+  });
+
+  it("plans only the upstream nodes of the target in node mode", () => {
+    expect(
+      planExecution(createDiamondFlow(), { mode: "node", nodeId: "b" })
+    ).toEqual({
+      order: ["a", "b"],
+      stages: [["a"], ["b"]],
+      cycles: [],
+      upstream: ["a"],
+    });
+    expect(
+      getErrorMessage(() =>
+        planExecution(createDiamondFlow(), { mode: "node", nodeId: "x" })
+      )
+    ).toEqual("planExecution in node mode requires an existing nodeId, got: x");
+  });
+
+  it("leaves nodes in or after cycles out of the order", () => {
+    const flow = createDiamondFlow();
+    flow.edges.push(createEdge("e5", "c", "b"), createEdge("e6", "b", "c"));
+    expect(planExecution(flow)).toEqual({
+      order: ["a", "e"],
+      stages: [["a", "e"]],
+      cycles: [["b", "c"]],
+    });
+  });
+
+  it("ignores edges from deleted outputs and missing nodes", () => {
+    const flow = createFlow();
+    flow.nodes[0].data.outputs[0].isDeleted = true;
+    flow.edges.push(createEdge("e3", "ghost", "b"));
+    expect(planExecution(flow).stages).toEqual([["a", "b", "c"]]);
+  });
+});
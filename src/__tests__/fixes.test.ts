@@ -0,0 +1,66 @@
+import { applyFixes } from "../fixes";
+import { lintFlow } from "../index";
+import { LintIssue } from "../types/lint";
+import { createFlow } from "./fixtures";
+
+const removal = (path: string): LintIssue => ({
+  severity: "warning",
+  message: `Remove ${path}`,
+  code: "test",
+  fix: { description: `Remove ${path}`, operations: [{ op: "remove", path }] },
+});
+
+/**
+ * a 的输出为 stale_0、output_data、stale_2，b 的输出为 output_data、stale_1
+ */
+function createFlowWithStaleOutputs() {
+  const flow = createFlow();
+  const stale = (id: string) => ({ id, title: id, type: "object" as const });
+  flow.nodes[0].data.outputs = [
+    stale("stale_0"),
+    ...flow.nodes[0].data.outputs,
+    stale("stale_2"),
+  ];
+  flow.nodes[1].data.outputs.push(stale("stale_1"));
+  return flow;
+}
+
+describe("applyFixes", () => {
+  it("removes sibling array items from the highest index down", () => {
+    const flow = createFlowWithStaleOutputs();
+    const fixed = applyFixes(flow, [
+      removal("/nodes/0/data/outputs/0"),
+      removal("/nodes/1/data/outputs/1"),
+      removal("/nodes/0/data/outputs/2"),
+    ]);
+
+    expect(
+      fixed.nodes.map((node) => node.data.outputs.map((o) => o.id))
+    ).toEqual([["output_data"], ["output_data"], ["output_data"]]);
+    expect(flow.nodes[0].data.outputs).toHaveLength(3);
+  });
+
+  it("skips fixes whose paths overlap an accepted fix", () => {
+    const fixed = applyFixes(createFlowWithStaleOutputs(), [
+      removal("/nodes/0/data/outputs/0"),
+      removal("/nodes/0/data/outputs/0/title"),
+    ]);
+    expect(fixed.nodes[0].data.outputs.map((output) => output.id)).toEqual([
+      "output_data",
+      "stale_2",
+    ]);
+  });
+
+  it("is idempotent when re-linting the fixed flow", () => {
+    const flow = createFlowWithStaleOutputs();
+    flow.nodes[1].data.inputs[1].value = "literal";
+    const fixed = applyFixes(flow, lintFlow(flow));
+
+    expect(fixed.nodes[0].data.outputs.map((output) => output.id)).toEqual([
+      "output_data",
+    ]);
+    expect(fixed.nodes[1].data.inputs[1].value).toEqual(undefined);
+    expect(lintFlow(fixed).filter((issue) => issue.fix)).toEqual([]);
+    expect(applyFixes(fixed, lintFlow(fixed))).toEqual(fixed);
+  });
+});
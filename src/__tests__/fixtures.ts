@@ -0,0 +1,98 @@
+import { EssentialEdge, EssentialNode, NodeType } from "../types/weather";
+import { FlowData } from "../types/lint";
+
+/**
+ * 创建 code_node：python_code 有值，input_data 可被连线
+ */
+export function createCodeNode(id: string, x = 0, y = 0): EssentialNode {
+  return {
+    id,
+    type: "code_node",
+    version: "1.0.0",
+    position: { x, y },
+    data: {
+      title: id,
+      description: "Run python",
+      collection: "compute",
+      inputs: [
+        {
+          id: "python_code",
+          title: "Code",
+          type: "text",
+          inputType: "text",
+          value: "output_data = input_data",
+        },
+        {
+          id: "input_data",
+          title: "Input",
+          type: "object",
+          inputType: "text",
+        },
+      ],
+      outputs: [{ id: "output_data", title: "Output", type: "object" }],
+    },
+  };
+}
+
+/**
+ * 按输入值创建任意类型的节点（值为 undefined 的输入不设置 value）
+ */
+export function createNode(
+  id: string,
+  type: string,
+  values: Record<string, unknown>,
+  outputs: string[] = [],
+  x = 0,
+  y = 0
+): EssentialNode {
+  return {
+    id,
+    type: type as NodeType,
+    version: "1.0.0",
+    position: { x, y },
+    data: {
+      title: id,
+      description: type,
+      collection: "compute",
+      inputs: Object.keys(values).map((inputId) => ({
+        id: inputId,
+        title: inputId,
+        type: "text",
+        inputType: "text",
+        ...(values[inputId] !== undefined && { value: values[inputId] }),
+      })),
+      outputs: outputs.map((outputId) => ({
+        id: outputId,
+        title: outputId,
+        type: "object",
+      })),
+    },
+  };
+}
+
+/**
+ * 创建 output_data → input_data 的边
+ */
+export function createEdge(
+  id: string,
+  source: string,
+  target: string,
+  targetHandle = "input_data",
+  sourceHandle = "output_data"
+): EssentialEdge {
+  return { id, source, sourceHandle, target, targetHandle };
+}
+
+/**
+ * a → b、a → c 的三节点工作流
+ */
+export function createFlow(): FlowData {
+  return {
+    nodes: [
+      createCodeNode("a"),
+      createCodeNode("b", 300, 0),
+      createCodeNode("c", 300, 200),
+    ],
+    edges: [createEdge("e1", "a", "b"), createEdge("e2", "a", "c")],
+  };
+}
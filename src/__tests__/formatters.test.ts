@@ -0,0 +1,91 @@
+import { junit, sarif } from "../formatters";
+import { LintFileResult } from "../types/lint";
+
+const RESULTS: LintFileResult[] = [
+  {
+    filePath: "flows\\swap.json",
+    issues: [
+      {
+        severity: "error",
+        message: "Trade amount must be greater than 0, got 0",
+        code: "invalid-trade-amount",
+        elementId: "s",
+        elementType: "node",
+        fieldId: "amount_in_human_readable",
+        fieldType: "input",
+      },
+      // 自定义规则不在内置规则中，SARIF 默认级别为 warning
+      {
+        severity: "warning",
+        message: "Edge <e1> has no label",
+        code: "house/edge-label",
+        elementId: "e1",
+        elementType: "edge",
+      },
+    ],
+  },
+  { filePath: "clean.json", issues: [] },
+];
+
+describe("SARIF formatter", () => {
+  it("reports issues as results with rules and logical locations", () => {
+    const log = JSON.parse(sarif(RESULTS));
+    const [run] = log.runs;
+
+    expect([log.version, run.tool.driver.name]).toEqual(["2.1.0", "tfl-lint"]);
+    expect(
+      run.tool.driver.rules.map(
+        (rule: { id: string; defaultConfiguration: { level: string } }) => [
+          rule.id,
+          rule.defaultConfiguration.level,
+        ]
+      )
+    ).toEqual([
+      ["invalid-trade-amount", "error"],
+      ["house/edge-label", "warning"],
+    ]);
+    expect(run.results[0]).toEqual({
+      ruleId: "invalid-trade-amount",
+      ruleIndex: 0,
+      level: "error",
+      message: { text: "Trade amount must be greater than 0, got 0" },
+      locations: [
+        {
+          physicalLocation: { artifactLocation: { uri: "flows/swap.json" } },
+          logicalLocations: [
+            {
+              name: "amount_in_human_readable",
+              fullyQualifiedName: "nodes/s/inputs/amount_in_human_readable",
+              kind: "property",
+            },
+          ],
+        },
+      ],
+    });
+    expect(run.results[1].locations[0].logicalLocations).toEqual([
+      { name: "e1", fullyQualifiedName: "edges/e1", kind: "object" },
+    ]);
+  });
+});
+
+describe("JUnit formatter", () => {
+  it("writes one failing testcase per issue and escapes XML", () => {
+    expect(junit(RESULTS).split("\n")).toEqual([
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<testsuites name="tfl-lint" tests="3" failures="2" errors="0">',
+      '  <testsuite name="flows\\swap.json" tests="2" failures="2" errors="0">',
+      '    <testcase classname="flows\\swap.json" name="invalid-trade-amount: node s › amount_in_human_readable" time="0">',
+      '      <failure message="Trade amount must be greater than 0, got 0" type="error">error: Trade amount must be greater than 0, got 0 (node s › amount_in_human_readable)</failure>',
+      "    </testcase>",
+      '    <testcase classname="flows\\swap.json" name="house/edge-label: edge e1" time="0">',
+      '      <failure message="Edge &lt;e1&gt; has no label" type="warning">warning: Edge &lt;e1&gt; has no label (edge e1)</failure>',
+      "    </testcase>",
+      "  </testsuite>",
+      '  <testsuite name="clean.json" tests="1" failures="0" errors="0">',
+      '    <testcase classname="clean.json" name="tfl-lint" time="0" />',
+      "  </testsuite>",
+      "</testsuites>",
+      "",
+    ]);
+  });
+});
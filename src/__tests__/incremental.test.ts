@@ -0,0 +1,144 @@
+import {
+  createIncrementalLinter,
+  createNodeRegistry,
+  lintFlowDetailed,
+  NodeDefinition,
+} from "../index";
+import { IncrementalLinter } from "../incremental";
+import { FlowData } from "../types/lint";
+import { NodeType } from "../types/weather";
+import { createCodeNode, createEdge, createFlow } from "./fixtures";
+
+/**
+ * 每个节点追加一个未声明的输出，使 unknown-output 问题带有按节点位置计算的 fix 路径
+ */
+function createFlowWithStaleOutputs(): FlowData {
+  const flow = createFlow();
+  flow.nodes = flow.nodes.map(withStaleOutput);
+  return flow;
+}
+
+function withStaleOutput(node: ReturnType<typeof createCodeNode>) {
+  return {
+    ...node,
+    data: {
+      ...node.data,
+      outputs: [
+        ...node.data.outputs,
+        { id: "stale", title: "Stale", type: "object" as const },
+      ],
+    },
+  };
+}
+
+/**
+ * 增量结果必须与对当前工作流全量 lint 的结果一致
+ */
+function expectMatchesFullLint(linter: IncrementalLinter): void {
+  expect(linter.getIssues()).toEqual(lintFlowDetailed(linter.getFlow()).issues);
+}
+
+describe("IncrementalLinter", () => {
+  let linter: IncrementalLinter;
+
+  beforeEach(() => {
+    linter = createIncrementalLinter(createFlowWithStaleOutputs());
+  });
+
+  it("matches a full lint after construction", () => {
+    expectMatchesFullLint(linter);
+  });
+
+  it("matches a full lint after adding, updating and removing nodes", () => {
+    linter.applyChanges([
+      { type: "add-node", node: withStaleOutput(createCodeNode("d", 600)) },
+    ]);
+    expectMatchesFullLint(linter);
+
+    const updated = createCodeNode("b", 300, 0);
+    updated.data.inputs = updated.data.inputs.slice(1);
+    linter.applyChanges([{ type: "update-node", node: updated }]);
+    expectMatchesFullLint(linter);
+
+    linter.applyChanges([{ type: "remove-node", id: "c" }]);
+    expectMatchesFullLint(linter);
+  });
+
+  it("matches a full lint after adding, updating and removing edges", () => {
+    linter.applyChanges([
+      { type: "add-edge", edge: createEdge("e3", "b", "c") },
+    ]);
+    expectMatchesFullLint(linter);
+
+    linter.applyChanges([
+      { type: "update-edge", edge: createEdge("e1", "a", "b", "missing") },
+    ]);
+    expectMatchesFullLint(linter);
+
+    linter.applyChanges([{ type: "remove-edge", id: "e2" }]);
+    expectMatchesFullLint(linter);
+  });
+
+  it("remaps cached fix paths when node indexes shift", () => {
+    linter.applyChanges([
+      {
+        type: "add-node",
+        node: withStaleOutput(createCodeNode("first", 0, 600)),
+        index: 0,
+      },
+    ]);
+    expectMatchesFullLint(linter);
+
+    linter.applyChanges([
+      { type: "remove-node", id: "first" },
+      { type: "remove-node", id: "a" },
+    ]);
+    expectMatchesFullLint(linter);
+    expect(
+      linter
+        .getIssues()
+        .filter((issue) => issue.code === "unknown-output")
+        .map((issue) => issue.fix?.operations[0].path)
+    ).toEqual(["/nodes/0/data/outputs/1", "/nodes/1/data/outputs/1"]);
+  });
+
+  it("reports added and removed issues", () => {
+    const { added, removed } = linter.applyChanges([
+      { type: "update-edge", edge: createEdge("e1", "a", "b", "missing") },
+    ]);
+    expect(added.map((issue) => [issue.code, issue.elementId])).toEqual([
+      ["invalid-edge-target-handle", "e1"],
+    ]);
+    expect(removed).toEqual([]);
+  });
+
+  it("re-lints cached nodes after the node registry changes", () => {
+    const nodeRegistry = createNodeRegistry();
+    const flow = createFlowWithStaleOutputs();
+    flow.nodes[2] = { ...flow.nodes[2], type: "backtest_node" as NodeType };
+    const registryLinter = createIncrementalLinter(flow, { nodeRegistry });
+    const expectMatchesRegistryLint = () =>
+      expect(registryLinter.getIssues()).toEqual(
+        lintFlowDetailed(registryLinter.getFlow(), { nodeRegistry }).issues
+      );
+    const codeNode = nodeRegistry.get("code_node") as NodeDefinition;
+
+    nodeRegistry.register({ ...codeNode, type: "backtest_node" });
+    const { removed } = registryLinter.invalidateAll();
+    expect(removed.map((issue) => [issue.code, issue.elementId])).toEqual([
+      ["invalid-node-type", "c"],
+    ]);
+    expectMatchesRegistryLint();
+
+    // 注册表变化在下一次变更时自动检测，未变更的节点同样重新检查
+    nodeRegistry.override({ ...codeNode, requiredInputs: ["runtime"] });
+    registryLinter.applyChanges([{ type: "remove-edge", id: "e2" }]);
+    expectMatchesRegistryLint();
+    expect(
+      registryLinter
+        .getIssues()
+        .filter((issue) => issue.code === "missing-required-input")
+        .map((issue) => issue.elementId)
+    ).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,63 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  createFlowJsonSchema,
+  createNodeJsonSchema,
+  JsonSchema,
+} from "../json-schema";
+import { NODE_DEFINITIONS } from "../definitions";
+
+const SCHEMA_PATH = join(
+  __dirname,
+  "..",
+  "..",
+  "schemas",
+  "essential-flow.schema.json"
+);
+
+/**
+ * 测试中访问的 JSON Schema 关键字
+ */
+interface SchemaShape {
+  properties: Record<string, SchemaShape>;
+  items: SchemaShape;
+  oneOf: JsonSchema[];
+  enum: unknown[];
+  $defs: Record<string, SchemaShape>;
+}
+
+const asShape = (schema: JsonSchema) => schema as unknown as SchemaShape;
+
+describe("JSON Schema", () => {
+  const schema = createFlowJsonSchema();
+  const shape = asShape(schema);
+
+  it("matches the published schema (run `npm run schema` after changing types or definitions)", () => {
+    expect(JSON.parse(readFileSync(SCHEMA_PATH, "utf8"))).toEqual(schema);
+  });
+
+  it("discriminates nodes on type for every node definition", () => {
+    const types = Object.keys(NODE_DEFINITIONS);
+    expect(shape.properties.nodes.items.oneOf).toEqual(
+      types.map((type) => ({ $ref: `#/$defs/${type}` }))
+    );
+    types.forEach((type) => {
+      expect(shape.$defs[type].properties.type).toEqual({ const: type });
+    });
+  });
+
+  it("limits input and output ids to the node definition", () => {
+    Object.keys(NODE_DEFINITIONS).forEach((type) => {
+      const definition =
+        NODE_DEFINITIONS[type as keyof typeof NODE_DEFINITIONS];
+      const { data } = asShape(createNodeJsonSchema(definition)).properties;
+      expect(data.properties.inputs.items.properties.id.enum).toEqual([
+        ...definition.requiredInputs,
+        ...definition.optionalInputs,
+      ]);
+      expect(data.properties.outputs.items.properties.id.enum).toEqual(
+        definition.outputs
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { lintFlow } from "../index";
+import { FlowData } from "../types/lint";
+import { createCodeNode, createEdge, createNode } from "./fixtures";
+
+const MULTIPLICITY_CODES = [
+  "too-many-input-connections",
+  "input-value-connection-conflict",
+];
+
+/**
+ * 两个 vault_node 都连到 swap_node s 的 vault 输入
+ */
+function createFanInFlow(): FlowData {
+  const vault = (id: string, y: number) =>
+    createNode(
+      id,
+      "vault_node",
+      { vault_address: "0xabc", chain: "evm" },
+      ["vault"],
+      0,
+      y
+    );
+  return {
+    nodes: [
+      vault("v1", 0),
+      vault("v2", 200),
+      createNode(
+        "s",
+        "swap_node",
+        {
+          from_token: "USDC",
+          to_token: "ETH",
+          amount_in_human_readable: "10",
+          vault: undefined,
+          slippery: "1",
+        },
+        ["trade_receipt"],
+        300
+      ),
+    ],
+    edges: [
+      createEdge("e1", "v1", "s", "vault", "vault"),
+      createEdge("e2", "v2", "s", "vault", "vault"),
+    ],
+  };
+}
+
+function multiplicityIssues(flow: FlowData) {
+  return lintFlow(flow)
+    .filter((issue) => MULTIPLICITY_CODES.includes(issue.code))
+    .map((issue) => [issue.code, issue.severity, issue.fieldId, issue.message]);
+}
+
+describe("Input multiplicity", () => {
+  it("reports single-valued inputs fed by several edges", () => {
+    expect(multiplicityIssues(createFanInFlow())).toEqual([
+      [
+        "too-many-input-connections",
+        "error",
+        "vault",
+        'Input "vault" accepts a single connection but is fed by 2 edges (from v1, v2)',
+      ],
+    ]);
+  });
+
+  it("allows fan-in on inputs declared as many", () => {
+    const flow: FlowData = {
+      nodes: [
+        createCodeNode("a"),
+        createCodeNode("b", 0, 200),
+        createCodeNode("c", 300),
+      ],
+      edges: [createEdge("e1", "a", "c"), createEdge("e2", "b", "c")],
+    };
+    expect(multiplicityIssues(flow)).toEqual([]);
+  });
+
+  it("warns about connected inputs that also hold a value", () => {
+    const flow = createFanInFlow();
+    flow.edges.pop();
+    flow.nodes[2].data.inputs[3].value = "0xdef";
+    const issues = lintFlow(flow).filter((issue) =>
+      MULTIPLICITY_CODES.includes(issue.code)
+    );
+
+    expect(
+      issues.map((issue) => [issue.code, issue.severity, issue.message])
+    ).toEqual([
+      [
+        "input-value-connection-conflict",
+        "warning",
+        'Input "vault" has a value but is also connected; the connected value takes precedence',
+      ],
+    ]);
+    expect(issues[0].fix?.operations).toEqual([
+      { op: "remove", path: "/nodes/2/data/inputs/3/value" },
+    ]);
+  });
+});
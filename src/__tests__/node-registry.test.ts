@@ -0,0 +1,117 @@
+import { lintFlow, TFLLint } from "../index";
+import {
+  createNodeRegistry,
+  NodeDefinitionError,
+  NodeRegistry,
+} from "../node-registry";
+import { NodeDefinition } from "../types/lint";
+import { createCodeNode } from "./fixtures";
+
+const codeNode = (
+  version: string,
+  requiredInputs: string[]
+): NodeDefinition => ({
+  ...(createNodeRegistry().get("code_node") as NodeDefinition),
+  version,
+  requiredInputs,
+});
+
+/**
+ * 内置 code_node 之外再注册 2.0.0 与 3.0.0 两个版本
+ */
+function createVersionedRegistry(): NodeRegistry {
+  return createNodeRegistry()
+    .register(codeNode("2.0.0", ["python_code", "runtime"]))
+    .register(codeNode("3.0.0", ["script"]));
+}
+
+describe("NodeRegistry", () => {
+  it("resolves node versions against registered definition versions", () => {
+    const registry = createVersionedRegistry();
+    expect([
+      registry.get("code_node", "^2.0.0")?.version,
+      registry.get("code_node", ">=2.0.0")?.version,
+      registry.get("code_node")?.version,
+      registry.get("code_node", "not a version")?.version,
+    ]).toEqual(["2.0.0", "3.0.0", "3.0.0", "3.0.0"]);
+    expect(registry.getVersions("code_node")).toEqual(["2.0.0", "3.0.0"]);
+  });
+
+  it("falls back to the unversioned built-in definition", () => {
+    const registry = createVersionedRegistry();
+    const builtin = createNodeRegistry().get("code_node");
+    expect(registry.get("code_node", "^1.0.0")).toEqual(builtin);
+    expect(createNodeRegistry().get("code_node", "^9.0.0")).toEqual(builtin);
+  });
+
+  it("rejects duplicate versions and invalid version numbers", () => {
+    const registry = createVersionedRegistry();
+    const errors = [codeNode("2.0.0", []), codeNode("^2.0.0", [])].map(
+      (definition) => {
+        try {
+          registry.register(definition);
+          return undefined;
+        } catch (error) {
+          return error instanceof NodeDefinitionError;
+        }
+      }
+    );
+    expect(errors).toEqual([true, true]);
+  });
+
+  it("removes a single version", () => {
+    const registry = createVersionedRegistry();
+    expect(registry.unregister("code_node", "3.0.0")).toEqual(true);
+    expect(registry.get("code_node")?.version).toEqual("2.0.0");
+    expect(registry.unregister("code_node", "3.0.0")).toEqual(false);
+  });
+
+  it("lints inputs against the resolved definition version", () => {
+    const nodeRegistry = createVersionedRegistry();
+    const lintVersion = (version: string) => {
+      const node = { ...createCodeNode("a"), version };
+      return lintFlow(
+        { nodes: [node], edges: [] },
+        { nodeRegistry, mode: "node" }
+      )
+        .filter((issue) => issue.severity === "error")
+        .map((issue) => [issue.code, issue.fieldId]);
+    };
+
+    expect(lintVersion("^1.0.0")).toEqual([]);
+    expect(lintVersion("^2.0.0")).toEqual([
+      ["missing-required-input", "runtime"],
+    ]);
+    expect(lintVersion("^3.0.0")).toEqual([
+      ["missing-required-input", "script"],
+    ]);
+  });
+
+  it("reports ranges that no definition satisfies", () => {
+    const nodeRegistry = new NodeRegistry([codeNode("2.0.0", [])]);
+    const node = { ...createCodeNode("a"), version: "^1.0.0" };
+    const issues = lintFlow({ nodes: [node], edges: [] }, { nodeRegistry });
+    expect(
+      issues
+        .filter((issue) => issue.code === "unsatisfiable-node-version")
+        .map((issue) => issue.message)
+    ).toEqual([
+      "No code_node definition satisfies version '^1.0.0' (available: 2.0.0)",
+    ]);
+  });
+
+  it("lists runtime-registered node types as supported", () => {
+    const linter = new TFLLint();
+    linter.getNodeRegistry().register({
+      ...codeNode("1.0.0", []),
+      type: "backtest_node",
+    });
+    expect(linter.getSupportedNodeTypes().includes("backtest_node")).toEqual(
+      true
+    );
+    expect(linter.getSupportedNodeTypes().includes("code_node")).toEqual(true);
+    expect(
+      new TFLLint().getSupportedNodeTypes().includes("backtest_node")
+    ).toEqual(false);
+  });
+});
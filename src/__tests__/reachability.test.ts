@@ -0,0 +1,73 @@
+import { lintFlow } from "../index";
+import { FlowData } from "../types/lint";
+import { createCodeNode, createEdge, createNode } from "./fixtures";
+
+const REACHABILITY_CODES = ["dead-end-node", "unfed-node", "dead-branch"];
+
+/**
+ * price_node p → code_node c → telegram_sender_node t
+ */
+function createPipeline(): FlowData {
+  return {
+    nodes: [
+      createNode("p", "price_node", { source: "coingecko" }, ["data"]),
+      createCodeNode("c", 300),
+      createNode(
+        "t",
+        "telegram_sender_node",
+        { account_to_send: "@me", messages: undefined },
+        ["status_output_handle"],
+        600
+      ),
+    ],
+    edges: [
+      createEdge("e1", "p", "c", "input_data", "data"),
+      createEdge("e2", "c", "t", "messages"),
+    ],
+  };
+}
+
+function reachabilityIssues(flow: FlowData) {
+  return lintFlow(flow)
+    .filter((issue) => REACHABILITY_CODES.includes(issue.code))
+    .map((issue) => [issue.code, issue.message]);
+}
+
+describe("Reachability rules", () => {
+  it("accepts flows where input data reaches an output node", () => {
+    expect(reachabilityIssues(createPipeline())).toEqual([]);
+  });
+
+  it("warns about compute results that never reach an output", () => {
+    const flow = createPipeline();
+    flow.nodes.push(createCodeNode("x", 300, 200));
+    flow.edges.push(createEdge("e3", "p", "x", "input_data", "data"));
+    expect(reachabilityIssues(flow)).toEqual([
+      [
+        "dead-end-node",
+        "Results of node x never reach an output or trade node",
+      ],
+    ]);
+  });
+
+  it("warns about output nodes that no input node feeds", () => {
+    const flow = createPipeline();
+    flow.edges = [flow.edges[1]];
+    // c 已连线但没有数据来源，p 孤立由 isolated-node 报告
+    expect(reachabilityIssues(flow)).toEqual([
+      ["unfed-node", "Node t is not fed by any input node"],
+    ]);
+  });
+
+  it("treats nodes whose outputs are all deleted as dead branches", () => {
+    const flow = createPipeline();
+    flow.nodes[1].data.outputs[0].isDeleted = true;
+    expect(reachabilityIssues(flow)).toEqual([
+      ["unfed-node", "Node t is not fed by any input node"],
+      [
+        "dead-branch",
+        "All outputs of node c are deleted, so its results are discarded",
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { lintFlow, lintFlowDetailed } from "../index";
+import { FlowData } from "../types/lint";
+import { createCodeNode, createEdge, createFlow } from "./fixtures";
+
+/**
+ * createFlow 加上孤立节点 d，且边 e1 指向不存在的输入
+ */
+function createBrokenFlow(): FlowData {
+  const flow = createFlow();
+  flow.nodes.push(createCodeNode("d", 900));
+  flow.edges[0] = createEdge("e1", "a", "b", "missing_input");
+  return flow;
+}
+
+describe("lintFlowDetailed", () => {
+  it("summarizes issues by severity, rule and node", () => {
+    const result = lintFlowDetailed(createBrokenFlow());
+
+    expect(result.issues.map(({ fingerprint, ...issue }) => issue)).toEqual(
+      lintFlow(createBrokenFlow())
+    );
+    expect([result.errorCount, result.warningCount]).toEqual([1, 4]);
+    expect(result.ruleCounts).toEqual({
+      "invalid-edge-target-handle": 1,
+      "isolated-node": 1,
+      "dead-end-node": 3,
+    });
+    // 边上的问题不计入 nodeIssues
+    expect(
+      Object.keys(result.nodeIssues).map((nodeId) => [
+        nodeId,
+        result.nodeIssues[nodeId].map((issue) => issue.code),
+      ])
+    ).toEqual([
+      ["d", ["isolated-node"]],
+      ["a", ["dead-end-node"]],
+      ["b", ["dead-end-node"]],
+      ["c", ["dead-end-node"]],
+    ]);
+    expect(Object.keys(result.ruleTimings).includes("isolated-node")).toEqual(
+      true
+    );
+    expect(result.elapsedMs >= 0).toEqual(true);
+  });
+
+  it("keeps fingerprints stable across unrelated edits", () => {
+    const before = lintFlowDetailed(createBrokenFlow());
+    const edited = createBrokenFlow();
+    edited.nodes.push(createCodeNode("e", 0, 600));
+    edited.edges.push(createEdge("e3", "e", "d"));
+    const after = lintFlowDetailed(edited);
+
+    const fingerprintOf = (
+      result: typeof before,
+      code: string,
+      elementId: string
+    ) =>
+      result.issues.find(
+        (issue) => issue.code === code && issue.elementId === elementId
+      )?.fingerprint;
+
+    expect(fingerprintOf(after, "dead-end-node", "b")).toEqual(
+      fingerprintOf(before, "dead-end-node", "b")
+    );
+    expect(fingerprintOf(after, "invalid-edge-target-handle", "e1")).toEqual(
+      fingerprintOf(before, "invalid-edge-target-handle", "e1")
+    );
+    expect(
+      new Set(before.issues.map((issue) => issue.fingerprint)).size
+    ).toEqual(before.issues.length);
+  });
+
+  it("reports element and field ids on edge and input issues", () => {
+    const flow = createBrokenFlow();
+    flow.nodes[3].data.inputs.push({
+      id: "extra",
+      title: "Extra",
+      type: "text",
+      inputType: "text",
+    });
+    const issues = lintFlow(flow).filter((issue) =>
+      ["invalid-edge-target-handle", "unknown-input"].includes(issue.code)
+    );
+    expect(
+      issues.map((issue) => [
+        issue.code,
+        issue.elementType,
+        issue.elementId,
+        issue.fieldType,
+        issue.fieldId,
+      ])
+    ).toEqual([
+      ["unknown-input", "node", "d", "input", "extra"],
+      ["invalid-edge-target-handle", "edge", "e1", undefined, undefined],
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { lintFlow, TFLLint } from "../index";
+import { BUILTIN_RULES, RuleRegistry } from "../rules";
+import { FlowData, LintOptions, LintRule } from "../types/lint";
+import { createCodeNode, createFlow } from "./fixtures";
+
+/**
+ * createFlow 加上孤立节点 d：产生 isolated-node 与 dead-end-node 警告
+ */
+function createFlowWithIsolatedNode(): FlowData {
+  const flow = createFlow();
+  flow.nodes.push(createCodeNode("d", 900));
+  return flow;
+}
+
+const summarize = (flow: FlowData, options?: LintOptions) =>
+  lintFlow(flow, options).map((issue) => [
+    issue.code,
+    issue.severity,
+    issue.elementId,
+  ]);
+
+// 自定义规则：节点标题必须以大写字母开头
+const titleCaseRule: LintRule = {
+  meta: {
+    code: "house/title-case",
+    description: "Node titles start with an uppercase letter",
+    severity: "warning",
+  },
+  check(context) {
+    context.flow.nodes.forEach((node) => {
+      if (!/^[A-Z]/.test(node.data.title)) {
+        context.report({
+          message: `Title of ${node.id} must start with an uppercase letter`,
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+describe("RuleRegistry", () => {
+  it("registers every built-in rule under its code", () => {
+    const registry = new RuleRegistry(BUILTIN_RULES);
+    expect(registry.getAll().map((rule) => rule.meta.code)).toEqual(
+      BUILTIN_RULES.map((rule) => rule.meta.code)
+    );
+  });
+
+  it("replaces rules with the same code in place and unregisters them", () => {
+    const registry = new RuleRegistry(BUILTIN_RULES);
+    const replacement = { ...titleCaseRule, meta: { ...titleCaseRule.meta } };
+    replacement.meta.code = "isolated-node";
+    registry.register(replacement);
+
+    const codes = registry.getAll().map((rule) => rule.meta.code);
+    expect(codes.indexOf("isolated-node")).toEqual(
+      BUILTIN_RULES.findIndex((rule) => rule.meta.code === "isolated-node")
+    );
+    expect(registry.get("isolated-node")).toEqual(replacement);
+    expect(registry.unregister("isolated-node")).toEqual(true);
+    expect(registry.has("isolated-node")).toEqual(false);
+  });
+
+  it("rejects rules without a code or check function", () => {
+    const errors = [
+      { meta: { ...titleCaseRule.meta, code: "" }, check: titleCaseRule.check },
+      { meta: titleCaseRule.meta },
+    ].map((rule) => {
+      try {
+        new RuleRegistry().register(rule as LintRule);
+        return undefined;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+    expect(errors).toEqual([
+      "Lint rule must have a meta.code",
+      "Lint rule house/title-case must have a check function",
+    ]);
+  });
+});
+
+describe("TFLLint rule engine", () => {
+  it("runs custom rules alongside the built-in rules", () => {
+    const flow = createFlowWithIsolatedNode();
+    flow.nodes[0].data.title = "Source";
+    expect(
+      summarize(flow, { customRules: [titleCaseRule] }).filter(
+        ([code]) => code === "house/title-case"
+      )
+    ).toEqual([
+      ["house/title-case", "warning", "b"],
+      ["house/title-case", "warning", "c"],
+      ["house/title-case", "warning", "d"],
+    ]);
+  });
+
+  it("lets custom rules override built-in rules with the same code", () => {
+    const quietIsolation: LintRule = {
+      meta: {
+        code: "isolated-node",
+        description: "Disabled",
+        severity: "warning",
+      },
+      check: () => undefined,
+    };
+    const codes = summarize(createFlowWithIsolatedNode(), {
+      customRules: [quietIsolation],
+    }).map(([code]) => code);
+    expect(codes.includes("isolated-node")).toEqual(false);
+  });
+
+  it("applies per-rule severity overrides and turns rules off", () => {
+    expect(
+      summarize(createFlowWithIsolatedNode(), {
+        rules: { "isolated-node": "error", "dead-end-node": "off" },
+      })
+    ).toEqual([["isolated-node", "error", "d"]]);
+    expect(
+      new TFLLint({ rules: { "dead-end-node": "off" } })
+        .getActiveRules()
+        .some((rule) => rule.meta.code === "dead-end-node")
+    ).toEqual(false);
+  });
+
+  it("promotes warnings in strict mode unless configured as warning", () => {
+    expect(
+      summarize(createFlowWithIsolatedNode(), {
+        strict: true,
+        rules: { "dead-end-node": "warning" },
+      })
+    ).toEqual([
+      ["isolated-node", "error", "d"],
+      ["dead-end-node", "warning", "a"],
+      ["dead-end-node", "warning", "b"],
+      ["dead-end-node", "warning", "c"],
+    ]);
+  });
+
+  it("runs only rules that apply to the current mode", () => {
+    expect(summarize(createFlowWithIsolatedNode(), { mode: "node" })).toEqual(
+      []
+    );
+  });
+});
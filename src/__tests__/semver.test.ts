@@ -0,0 +1,70 @@
+import { compareVersions, maxSatisfying, satisfies } from "../semver";
+
+describe("semver", () => {
+  it("orders prereleases before their release", () => {
+    expect(
+      ["1.0.0", "1.0.0-beta.2", "1.0.0-alpha", "0.9.0", "1.0.0-beta.10"].sort(
+        compareVersions
+      )
+    ).toEqual([
+      "0.9.0",
+      "1.0.0-alpha",
+      "1.0.0-beta.2",
+      "1.0.0-beta.10",
+      "1.0.0",
+    ]);
+  });
+
+  it("matches caret ranges including 0.x versions", () => {
+    const cases: Array<[string, string, boolean]> = [
+      ["1.4.0", "^1.2.0", true],
+      ["2.0.0", "^1.2.0", false],
+      ["1.1.9", "^1.2.0", false],
+      ["0.2.5", "^0.2.3", true],
+      ["0.3.0", "^0.2.3", false],
+      ["0.0.3", "^0.0.3", true],
+      ["0.0.4", "^0.0.3", false],
+    ];
+    expect(cases.map(([version, range]) => satisfies(version, range))).toEqual(
+      cases.map(([, , expected]) => expected)
+    );
+  });
+
+  it("matches tilde, comparison and exact ranges", () => {
+    const cases: Array<[string, string, boolean]> = [
+      ["1.2.9", "~1.2.0", true],
+      ["1.3.0", "~1.2.0", false],
+      ["2.0.0", ">=1.0.0", true],
+      ["1.0.0", ">1.0.0", false],
+      ["0.9.0", "<1.0.0", true],
+      ["1.0.0", "<=1.0.0", true],
+      ["1.2.3", "1.2.3", true],
+      ["1.2.4", "1.2.3", false],
+    ];
+    expect(cases.map(([version, range]) => satisfies(version, range))).toEqual(
+      cases.map(([, , expected]) => expected)
+    );
+  });
+
+  it("excludes prereleases from ranges unless tagged", () => {
+    expect([
+      satisfies("1.3.0-beta.1", "^1.2.0"),
+      satisfies("1.3.0-beta.1", "1.3.0-beta.1"),
+      satisfies("1.3.0-beta.1", "latest"),
+      satisfies("1.3.0-beta.1", "latest-beta"),
+      satisfies("1.3.0-rc.1", "latest-beta"),
+      satisfies("1.2.0", "latest-beta"),
+    ]).toEqual([false, true, false, true, false, true]);
+  });
+
+  it("picks the highest satisfying version", () => {
+    const versions = ["2.1.0-beta.1", "1.0.0", "1.2.0", "2.0.0"];
+    expect([
+      maxSatisfying(versions, "^1.0.0"),
+      maxSatisfying(versions, "latest"),
+      maxSatisfying(versions, "latest-beta"),
+      maxSatisfying(versions, "^3.0.0"),
+      maxSatisfying(["1.0.0-beta.1"], "latest"),
+    ]).toEqual(["1.2.0", "2.0.0", "2.1.0-beta.1", undefined, "1.0.0-beta.1"]);
+  });
+});
@@ -0,0 +1,80 @@
+import { findOverlappingPairs, Rect, rectsOverlap } from "../spatial";
+
+/**
+ * 逐对比较的参考实现，排序与 findOverlappingPairs 一致
+ */
+function naivePairs(rects: Array<Rect | undefined>): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  for (let j = 0; j < rects.length; j++) {
+    for (let i = 0; i < j; i++) {
+      const a = rects[i];
+      const b = rects[j];
+      if (a && b && rectsOverlap(a, b)) {
+        pairs.push([i, j]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * 固定种子的伪随机数，保证测试可重复
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+const rect = (x: number, y: number, width = 100, height = 50): Rect => ({
+  x,
+  y,
+  width,
+  height,
+});
+
+describe("findOverlappingPairs", () => {
+  it("handles rects on cell boundaries", () => {
+    // 平均尺寸为 100x50，坐标恰好落在网格线上
+    const rects = [
+      rect(0, 0),
+      rect(100, 0), // 与 0 右边缘相接
+      rect(99, 49), // 与 0、1 只重叠 1 个单位，交集跨越单元边界
+      rect(100, 50), // 与 1 下边缘、与 4 右边缘相接
+      rect(0, 50), // 与 0 下边缘相接
+      rect(-100, -50), // 负坐标，与 0 角相接
+      undefined,
+      rect(50, 25),
+    ];
+    expect(findOverlappingPairs(rects)).toEqual(naivePairs(rects));
+    // 仅边缘相接的 [0, 1]、[0, 4]、[0, 5]、[1, 3]、[3, 4] 不算重叠
+    expect(findOverlappingPairs(rects)).toEqual([
+      [0, 2],
+      [1, 2],
+      [2, 3],
+      [2, 4],
+      [0, 7],
+      [1, 7],
+      [2, 7],
+      [3, 7],
+      [4, 7],
+    ]);
+  });
+
+  it("matches pairwise comparison for random layouts with oversized rects", () => {
+    const random = createRandom(42);
+    const rects = Array.from({ length: 300 }, (_, index) =>
+      index % 97 === 0
+        ? rect(random() * 2000, random() * 1000, 2000, 1200)
+        : rect(
+            Math.round(random() * 40) * 50,
+            Math.round(random() * 40) * 25,
+            50 + Math.round(random() * 3) * 50,
+            25 + Math.round(random() * 3) * 25
+          )
+    );
+    expect(findOverlappingPairs(rects)).toEqual(naivePairs(rects));
+  });
+});
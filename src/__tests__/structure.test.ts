@@ -0,0 +1,147 @@
+import { lintFlow } from "../index";
+import {
+  hasBlockingProblems,
+  STRUCTURE_ISSUE_CODE,
+  validateFlowStructure,
+  validateHandleReferences,
+} from "../structure";
+import { FlowData, LintOptions } from "../types/lint";
+import { NodeType } from "../types/weather";
+import { createCodeNode, createEdge } from "./fixtures";
+
+const createCodeFlow = (): FlowData => ({
+  nodes: [createCodeNode("a")],
+  edges: [],
+});
+
+const createFlow = (switchOptions: unknown[]): FlowData =>
+  ({
+    name: "Swap",
+    nodes: [
+      {
+        id: "swap",
+        type: "swap_node",
+        position: { x: 0, y: 0 },
+        data: {
+          title: "Swap",
+          description: "Swap tokens",
+          collection: "trade",
+          inputs: [
+            {
+              id: "amount_in_human_readable",
+              title: "Amount",
+              type: "switch",
+              inputType: "switch",
+              value: { mode: "absolute", value: "1" },
+              switchOptions,
+            },
+          ],
+          outputs: [],
+        },
+      },
+    ],
+    edges: [],
+  } as unknown as FlowData);
+
+describe("Flow structure", () => {
+  it("checks switch options of each input", () => {
+    expect(validateFlowStructure(createFlow([null]))).toEqual([
+      {
+        kind: "type",
+        path: "/nodes/0/data/inputs/0/switchOptions/0",
+        message: "expected object, got null",
+      },
+    ]);
+  });
+
+  it("reports malformed switch options instead of throwing", () => {
+    const issues = lintFlow(createFlow([null]));
+    expect(
+      issues
+        .filter((issue) => issue.code === STRUCTURE_ISSUE_CODE)
+        .map((issue) => issue.path)
+    ).toEqual(["/nodes/0/data/inputs/0/switchOptions/0"]);
+    expect(
+      issues.some((issue) => issue.code === "missing-node-version")
+    ).toEqual(true);
+  });
+
+  it("keeps running rules when only optional fields have the wrong type", () => {
+    const flow = createCodeFlow();
+    flow.nodes[0].type = "nope" as NodeType;
+    (flow.nodes[0].data.inputs[0] as { placeholder: unknown }).placeholder =
+      null;
+    expect(lintFlow(flow).map((issue) => [issue.code, issue.path])).toEqual([
+      [STRUCTURE_ISSUE_CODE, "/nodes/0/data/inputs/0/placeholder"],
+      ["invalid-node-type", undefined],
+    ]);
+  });
+
+  it("reports only structure issues when rule containers have the wrong type", () => {
+    const flow = createCodeFlow();
+    flow.nodes[0].type = "nope" as NodeType;
+    (flow.nodes[0].data as { outputs: unknown }).outputs = {};
+    const problems = validateFlowStructure(flow);
+    expect(problems.map((problem) => problem.blocking)).toEqual([true]);
+    expect(hasBlockingProblems(problems)).toEqual(true);
+    expect(lintFlow(flow).map((issue) => [issue.code, issue.path])).toEqual([
+      [STRUCTURE_ISSUE_CODE, "/nodes/0/data/outputs"],
+    ]);
+  });
+
+  it("applies rule settings and suppressions to structure issues", () => {
+    const flow = createCodeFlow();
+    (flow.nodes[0].data as { outputs: unknown }).outputs = {};
+    const lint = (options: LintOptions, data = flow) =>
+      lintFlow(data, options).map((issue) => [issue.code, issue.severity]);
+
+    expect(lint({ rules: { [STRUCTURE_ISSUE_CODE]: "warning" } })).toEqual([
+      [STRUCTURE_ISSUE_CODE, "warning"],
+    ]);
+    expect(lint({ rules: { [STRUCTURE_ISSUE_CODE]: "off" } })).toEqual([]);
+    expect(
+      lint(
+        {},
+        {
+          ...flow,
+          lintIgnore: [{ code: STRUCTURE_ISSUE_CODE, reason: "legacy export" }],
+        }
+      )
+    ).toEqual([]);
+  });
+
+  it("validates edge handle references", () => {
+    const flow = createCodeFlow();
+    flow.nodes.push(createCodeNode("b", 300));
+    flow.edges = [
+      createEdge("e1", "a", "b", "input_data-handle"),
+      createEdge("e2", "a", "b", "missing", "output1"),
+      createEdge("e3", "ghost", "b"),
+    ];
+    expect(validateHandleReferences(flow)).toEqual({
+      isValid: false,
+      errors: [
+        {
+          field: "sourceHandle",
+          message: "Edge 1: Source handle 'output1' not found in node a",
+          severity: "error",
+          path: "/edges/1/sourceHandle",
+        },
+        {
+          field: "targetHandle",
+          message: "Edge 1: Target handle 'missing' not found in node b",
+          severity: "error",
+          path: "/edges/1/targetHandle",
+        },
+        {
+          field: "source",
+          message: "Edge 2: Source node 'ghost' not found",
+          severity: "error",
+          path: "/edges/2/source",
+        },
+      ],
+      warnings: [],
+    });
+    expect(validateHandleReferences({ nodes: {} }).isValid).toEqual(false);
+  });
+});
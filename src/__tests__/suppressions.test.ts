@@ -0,0 +1,77 @@
+import { lintFlow } from "../index";
+import { FlowData, LintOptions } from "../types/lint";
+import { LintSuppression } from "../types/weather";
+import { createCodeNode, createFlow } from "./fixtures";
+
+/**
+ * createFlow 加上孤立节点 d：产生 isolated-node 与 dead-end-node 警告
+ */
+function createFlowWithIsolatedNode(): FlowData {
+  const flow = createFlow();
+  flow.nodes.push(createCodeNode("d", 900));
+  return flow;
+}
+
+const summarize = (flow: FlowData, options?: LintOptions) =>
+  lintFlow(flow, options).map((issue) => [issue.code, issue.elementId]);
+
+describe("Suppressions", () => {
+  it("suppresses issues on the node or across the flow", () => {
+    const flow = createFlowWithIsolatedNode();
+    flow.nodes[3].lintIgnore = [
+      { code: "isolated-node", reason: "Kept as a template" },
+    ];
+    flow.lintIgnore = [{ code: "dead-end-node", reason: "Draft flow" }];
+    expect(summarize(flow)).toEqual([]);
+  });
+
+  it("does not apply node suppressions to other nodes", () => {
+    const flow = createFlowWithIsolatedNode();
+    flow.nodes[1].lintIgnore = [
+      { code: "isolated-node", reason: "Wrong node" },
+    ];
+    const issues = lintFlow(flow, { rules: { "dead-end-node": "off" } });
+
+    expect(issues.map((issue) => [issue.code, issue.elementId])).toEqual([
+      ["isolated-node", "d"],
+      ["unused-suppression", "b"],
+    ]);
+    expect(issues[1].fix).toEqual({
+      description: "Remove unused suppression of 'isolated-node'",
+      operations: [{ op: "remove", path: "/nodes/1/lintIgnore/0" }],
+    });
+  });
+
+  it("ignores suppressions without a code or reason", () => {
+    const flow = createFlowWithIsolatedNode();
+    flow.nodes[3].lintIgnore = [
+      { code: "isolated-node", reason: " " },
+      { reason: "No code" } as LintSuppression,
+    ];
+    const issues = lintFlow(flow, { rules: { "dead-end-node": "off" } });
+
+    expect(issues.map((issue) => [issue.code, issue.message])).toEqual([
+      [
+        "isolated-node",
+        "Node d is isolated (not connected to any other nodes)",
+      ],
+      [
+        "invalid-suppression",
+        "Suppression 'isolated-node' must have a non-empty code and reason; it is ignored",
+      ],
+      [
+        "invalid-suppression",
+        "Suppression without code must have a non-empty code and reason; it is ignored",
+      ],
+    ]);
+  });
+
+  it("does not report suppressions of rules that did not run", () => {
+    const flow = createFlowWithIsolatedNode();
+    flow.lintIgnore = [{ code: "dead-end-node", reason: "Draft flow" }];
+    expect(summarize(flow, { rules: { "dead-end-node": "off" } })).toEqual([
+      ["isolated-node", "d"],
+    ]);
+    expect(summarize(flow, { mode: "node" })).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { lintFlow } from "../index";
+import { tradeSafetyRules } from "../rules";
+import { FlowData, LintOptions } from "../types/lint";
+import { createEdge, createNode } from "./fixtures";
+
+const TRADE_CODES = tradeSafetyRules.map((rule) => rule.meta.code);
+
+/**
+ * vault_node → swap_node 的工作流，swap_node 的输入值可覆盖
+ */
+function createSwapFlow(values: Record<string, unknown> = {}): FlowData {
+  return {
+    nodes: [
+      createNode("v", "vault_node", { vault_address: "0xabc", chain: "evm" }, [
+        "vault",
+      ]),
+      createNode(
+        "s",
+        "swap_node",
+        {
+          from_token: "USDC",
+          to_token: "ETH",
+          amount_in_human_readable: "10",
+          vault: undefined,
+          slippery: "1",
+          ...values,
+        },
+        ["trade_receipt"],
+        300
+      ),
+    ],
+    edges: [createEdge("e1", "v", "s", "vault", "vault")],
+  };
+}
+
+function tradeIssues(flow: FlowData, options?: LintOptions) {
+  return lintFlow(flow, options)
+    .filter((issue) => TRADE_CODES.includes(issue.code))
+    .map((issue) => [issue.code, issue.severity, issue.message]);
+}
+
+describe("Trade safety rules", () => {
+  it("accepts a safe trade", () => {
+    expect(tradeIssues(createSwapFlow())).toEqual([]);
+  });
+
+  it("reports the same token on both sides after normalizing", () => {
+    expect(tradeIssues(createSwapFlow({ to_token: " usdc " }))).toEqual([
+      ["same-token-trade", "error", "from_token and to_token are both USDC"],
+    ]);
+    expect(
+      tradeIssues(
+        createSwapFlow({
+          from_token: "0xAbC0000000000000000000000000000000000001",
+          to_token: "0xabc0000000000000000000000000000000000001",
+        })
+      ).map(([code]) => code)
+    ).toEqual(["same-token-trade"]);
+  });
+
+  it("skips token values that are not strings or numbers", () => {
+    const token = { symbol: "USDC", address: "0x1" };
+    expect(
+      tradeIssues(createSwapFlow({ from_token: token, to_token: token }))
+    ).toEqual([]);
+  });
+
+  it("reports amounts that are not positive", () => {
+    expect(
+      tradeIssues(createSwapFlow({ amount_in_human_readable: "0" }))
+    ).toEqual([
+      [
+        "invalid-trade-amount",
+        "error",
+        "Trade amount must be greater than 0, got 0",
+      ],
+    ]);
+    expect(
+      tradeIssues(
+        createSwapFlow({
+          amount_in_human_readable: { mode: "number", value: "-1" },
+        })
+      ).map(([, , message]) => message)
+    ).toEqual(["Trade amount must be greater than 0, got -1"]);
+  });
+
+  it("limits percentage amounts to 100% and absolute amounts to maxAmount", () => {
+    const percentage = createSwapFlow({
+      amount_in_human_readable: { mode: "percentage", value: "150" },
+    });
+    expect(tradeIssues(percentage).map(([, , message]) => message)).toEqual([
+      "Trade amount 150% exceeds 100%",
+    ]);
+
+    const options = { tradeSafety: { maxAmount: 20 } };
+    expect(
+      tradeIssues(
+        createSwapFlow({
+          amount_in_human_readable: { mode: "percentage", value: "50" },
+        }),
+        options
+      )
+    ).toEqual([]);
+    expect(
+      tradeIssues(
+        createSwapFlow({ amount_in_human_readable: "50" }),
+        options
+      ).map(([, , message]) => message)
+    ).toEqual(["Trade amount 50 exceeds the configured maximum of 20"]);
+  });
+
+  it("uses switch option input types to detect percentage amounts", () => {
+    const flow = createSwapFlow({
+      amount_in_human_readable: { mode: "ratio", value: "120" },
+    });
+    flow.nodes[1].data.inputs[2].switchOptions = [
+      { value: "ratio", label: "Ratio", inputType: "percentage" },
+      { value: "amount", label: "Amount", inputType: "number" },
+    ];
+    expect(tradeIssues(flow).map(([, , message]) => message)).toEqual([
+      "Trade amount 120% exceeds 100%",
+    ]);
+  });
+
+  it("warns about slippage above the configured threshold", () => {
+    expect(tradeIssues(createSwapFlow({ slippery: "5" }))).toEqual([]);
+    expect(tradeIssues(createSwapFlow({ slippery: "6" }))).toEqual([
+      [
+        "excessive-slippage",
+        "warning",
+        "Slippage 6% exceeds the maximum of 5%",
+      ],
+    ]);
+    expect(
+      tradeIssues(createSwapFlow({ slippery: "3" }), {
+        tradeSafety: { maxSlippage: 2 },
+      }).map(([, , message]) => message)
+    ).toEqual(["Slippage 3% exceeds the maximum of 2%"]);
+  });
+
+  it("requires the vault input to come from a vault_node", () => {
+    const fromCode = createSwapFlow();
+    fromCode.nodes[0] = createNode("v", "code_node", {}, ["vault"]);
+    expect(tradeIssues(fromCode).map(([, , message]) => message)).toEqual([
+      "Trade node s vault input is connected to code_node v, expected a vault_node",
+    ]);
+
+    const literal = createSwapFlow({ vault: "0xabc" });
+    literal.edges = [];
+    expect(tradeIssues(literal).map(([, , message]) => message)).toEqual([
+      "Trade node s vault input is not connected to a vault_node",
+    ]);
+
+    // 缺失的 vault 由 missing-required-input 报告
+    const missing = createSwapFlow();
+    missing.edges = [];
+    expect(tradeIssues(missing)).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { NODE_DEFINITIONS } from "../definitions";
+import { lintFlow } from "../index";
+import { validateSchemaValue } from "../value-validation";
+import { createNode } from "./fixtures";
+
+describe("validateSchemaValue", () => {
+  it("matches case-insensitive enums regardless of case", () => {
+    const schema = { type: "string" as const, enum: ["coingecko"] };
+    expect(
+      [
+        validateSchemaValue(
+          "CoinGecko",
+          { ...schema, caseInsensitive: true },
+          "source"
+        ),
+        validateSchemaValue("CoinGecko", schema, "source"),
+        validateSchemaValue(
+          "binance",
+          { ...schema, caseInsensitive: true },
+          "source"
+        ),
+      ].map((problem) => problem?.message)
+    ).toEqual([
+      undefined,
+      'source must be one of: coingecko, got "CoinGecko"',
+      'source must be one of: coingecko, got "binance"',
+    ]);
+  });
+
+  it("does not cap limits without a documented maximum", () => {
+    const schemas = NODE_DEFINITIONS.rootdata_node.inputSchemas || {};
+    expect([
+      validateSchemaValue(500, schemas.page_size, "page_size"),
+      validateSchemaValue(90, schemas.days, "days"),
+      validateSchemaValue(0, schemas.days, "days")?.kind,
+    ]).toEqual([undefined, undefined, "range"]);
+  });
+
+  it("accepts the CoinGecko source in any case", () => {
+    const node = createNode("p", "price_node", {
+      source: "CoinGecko",
+      data_type: "price",
+      symbol: "BTC",
+    });
+    expect(
+      lintFlow({ nodes: [node], edges: [] }, { mode: "node" }).filter(
+        (issue) => issue.fieldId === "source"
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { LintFileResult, LintIssue } from "./types/lint";
+import { assignFingerprints } from "./result";
+
+export const BASELINE_VERSION = 1;
+
+/**
+ * 基线：记录已知问题的指纹，之后的 lint 只报告新增问题
+ */
+export interface LintBaseline {
+  version: number;
+  files: Record<string, string[]>; // 按文件路径记录的问题指纹
+}
+
+/**
+ * 由当前 lint 结果生成基线
+ */
+export function createBaseline(results: LintFileResult[]): LintBaseline {
+  const files: Record<string, string[]> = {};
+  results.forEach((result) => {
+    const fingerprints = assignFingerprints(result.issues).map(
+      (issue) => issue.fingerprint as string
+    );
+    if (fingerprints.length > 0) {
+      files[result.filePath] = fingerprints.sort();
+    }
+  });
+  return { version: BASELINE_VERSION, files };
+}
+
+/**
+ * 过滤掉基线中已记录的问题
+ *
+ * 指纹按 lintFlow 的完整输出重新计算，传入的 issues 不能是过滤后的子集
+ */
+export function filterNewIssues(
+  issues: LintIssue[],
+  fingerprints: string[]
+): LintIssue[] {
+  const known = new Set(fingerprints);
+  const fingerprinted = assignFingerprints(issues);
+  return issues.filter(
+    (_issue, index) => !known.has(fingerprinted[index].fingerprint as string)
+  );
+}
+
+/**
+ * 将基线应用到多个文件的 lint 结果
+ */
+export function applyBaseline(
+  results: LintFileResult[],
+  baseline: LintBaseline
+): LintFileResult[] {
+  return results.map((result) => ({
+    ...result,
+    issues: filterNewIssues(
+      result.issues,
+      baseline.files[result.filePath] || []
+    ),
+  }));
+}
+
+/**
+ * 校验并解析基线文件内容
+ */
+export function parseBaseline(data: unknown): LintBaseline {
+  const baseline = data as LintBaseline;
+  if (
+    !baseline ||
+    typeof baseline !== "object" ||
+    baseline.version !== BASELINE_VERSION ||
+    !baseline.files ||
+    typeof baseline.files !== "object" ||
+    !Object.values(baseline.files).every(
+      (fingerprints) =>
+        Array.isArray(fingerprints) &&
+        fingerprints.every((fingerprint) => typeof fingerprint === "string")
+    )
+  ) {
+    throw new Error(
+      `Invalid baseline: expected { version: ${BASELINE_VERSION}, files: { [path]: string[] } }`
+    );
+  }
+  return baseline;
+}
@@ -0,0 +1,338 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { lintFlow } from "./index";
+import { FlowData, LintFileResult, LintMode, LintOptions } from "./types/lint";
+import { FORMATTERS, getFormatter } from "./formatters";
+import { expandGlob, isGlob } from "./glob";
+import {
+  applyBaseline,
+  createBaseline,
+  LintBaseline,
+  parseBaseline,
+} from "./baseline";
+import { ConfigError, resolveConfig } from "./config";
+import { loadConfig, loadConfigFile } from "./config-file";
+import {
+  createNodeRegistry,
+  NodeDefinitionError,
+  NodeRegistry,
+} from "./node-registry";
+
+/**
+ * 命令行参数
+ */
+export interface CliOptions {
+  patterns: string[];
+  mode?: LintMode; // 未指定时使用配置文件中的值
+  strict?: boolean;
+  config?: string; // 显式指定的配置文件路径
+  nodeManifest?: string; // 额外节点定义清单路径
+  baseline?: string; // 基线文件路径
+  writeBaseline: boolean; // 将当前问题写入基线文件
+  format: string;
+  maxWarnings: number; // -1 表示不限制
+  help: boolean;
+}
+
+const USAGE = `Usage: tfl-lint [options] <file|glob>...
+
+Lint TradingFlow flow JSON files.
+
+Options:
+  --mode <flow|node>     Lint mode (default: flow)
+  --strict               Report all warnings as errors
+  --config <path>        Use this config file instead of discovering
+                         .tfllintrc from the working directory
+  --nodes <path>         Register or override node definitions from a
+                         JSON manifest ({ "nodes": [...] })
+  --format <name>        Output format: ${Object.keys(FORMATTERS).join(
+    ", "
+  )} (default: stylish)
+  --max-warnings <n>     Fail when more than n warnings are reported
+  --baseline <path>      Only report issues that are not in this baseline file
+  --write-baseline       Write all current issues to the --baseline file
+  -h, --help             Show this help
+`;
+
+/**
+ * 命令行参数错误
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+/**
+ * 解析命令行参数（支持 --name value 与 --name=value）
+ */
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    patterns: [],
+    writeBaseline: false,
+    format: "stylish",
+    maxWarnings: -1,
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("-") || arg === "-") {
+      options.patterns.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.split(/=(.*)/s, 2);
+    const takeValue = (): string => {
+      const value = inlineValue !== undefined ? inlineValue : argv[++i];
+      if (value === undefined) {
+        throw new CliUsageError(`Option ${name} requires a value`);
+      }
+      return value;
+    };
+
+    switch (name) {
+      case "--mode": {
+        const mode = takeValue();
+        if (mode !== "flow" && mode !== "node") {
+          throw new CliUsageError(
+            `Invalid --mode '${mode}', expected flow or node`
+          );
+        }
+        options.mode = mode;
+        break;
+      }
+      case "--strict":
+        options.strict = true;
+        break;
+      case "--config":
+        options.config = takeValue();
+        break;
+      case "--nodes":
+        options.nodeManifest = takeValue();
+        break;
+      case "--baseline":
+        options.baseline = takeValue();
+        break;
+      case "--write-baseline":
+        options.writeBaseline = true;
+        break;
+      case "--format": {
+        options.format = takeValue();
+        if (!getFormatter(options.format)) {
+          throw new CliUsageError(
+            `Unknown format '${options.format}', expected one of: ${Object.keys(
+              FORMATTERS
+            ).join(", ")}`
+          );
+        }
+        break;
+      }
+      case "--max-warnings": {
+        const value = takeValue();
+        const maxWarnings = Number(value);
+        if (!Number.isInteger(maxWarnings) || maxWarnings < -1) {
+          throw new CliUsageError(`Invalid --max-warnings '${value}'`);
+        }
+        options.maxWarnings = maxWarnings;
+        break;
+      }
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      default:
+        throw new CliUsageError(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (options.writeBaseline && !options.baseline) {
+    throw new CliUsageError("--write-baseline requires --baseline <path>");
+  }
+
+  return options;
+}
+
+/**
+ * 读取基线文件
+ */
+function readBaseline(filePath: string): LintBaseline {
+  try {
+    return parseBaseline(JSON.parse(fs.readFileSync(filePath, "utf8")));
+  } catch (error) {
+    throw new Error(
+      `Cannot read baseline ${filePath}: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * 读取节点定义清单，返回包含内置节点与清单节点的注册表
+ */
+function readNodeManifest(filePath: string): NodeRegistry {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new NodeDefinitionError(
+      `Cannot read node manifest ${filePath}: ${(error as Error).message}`
+    );
+  }
+  return createNodeRegistry().loadManifest(manifest);
+}
+
+/**
+ * 展开文件参数（glob 无匹配时报错）
+ */
+export function resolveFiles(patterns: string[], cwd: string): string[] {
+  const files = new Set<string>();
+  patterns.forEach((pattern) => {
+    const matches = expandGlob(pattern, cwd);
+    if (matches.length === 0 && isGlob(pattern)) {
+      throw new CliUsageError(`No files matching '${pattern}' were found`);
+    }
+    matches.forEach((file) => files.add(file));
+  });
+  return Array.from(files);
+}
+
+/**
+ * lint 单个文件（无法读取或解析的文件作为一条错误返回）
+ */
+export function lintFile(
+  filePath: string,
+  options: LintOptions
+): LintFileResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    return {
+      filePath,
+      issues: [
+        {
+          severity: "error",
+          message: `Cannot read flow file: ${(error as Error).message}`,
+          code: "unreadable-file",
+        },
+      ],
+    };
+  }
+  return { filePath, issues: lintFlow(data as FlowData, options) };
+}
+
+/**
+ * 运行命令行，返回退出码：0 通过，1 存在错误或警告超限，2 用法错误
+ */
+export function run(
+  argv: string[],
+  io: {
+    cwd: string;
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+  }
+): number {
+  let options: CliOptions;
+  let files: string[];
+  let configOptions: LintOptions = {};
+  try {
+    options = parseArgs(argv);
+    if (options.help) {
+      io.stdout(USAGE);
+      return 0;
+    }
+    if (options.patterns.length === 0) {
+      throw new CliUsageError("No files specified");
+    }
+    files = resolveFiles(options.patterns, io.cwd);
+    if (options.config) {
+      configOptions = resolveConfig(
+        loadConfigFile(path.resolve(io.cwd, options.config))
+      );
+    } else {
+      configOptions = loadConfig(io.cwd)?.options || {};
+    }
+    if (options.nodeManifest) {
+      configOptions.nodeRegistry = readNodeManifest(
+        path.resolve(io.cwd, options.nodeManifest)
+      );
+    }
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr(`tfl-lint: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof ConfigError || error instanceof NodeDefinitionError) {
+      io.stderr(`tfl-lint: ${error.message}\n`);
+      return 2;
+    }
+    throw error;
+  }
+
+  // 命令行参数优先于配置文件
+  const lintOptions: LintOptions = {
+    ...configOptions,
+    ...(options.mode && { mode: options.mode }),
+    ...(options.strict && { strict: true }),
+  };
+  let results = files.map((file) => {
+    const result = lintFile(file, lintOptions);
+    // 基线按 posix 相对路径记录，保证跨平台可共享
+    const filePath = path.relative(io.cwd, file).split(path.sep).join("/");
+    return { ...result, filePath: filePath || file };
+  });
+
+  if (options.baseline) {
+    const baselinePath = path.resolve(io.cwd, options.baseline);
+    if (options.writeBaseline) {
+      const baseline = createBaseline(results);
+      fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + "\n");
+      const count = Object.values(baseline.files).reduce(
+        (total, fingerprints) => total + fingerprints.length,
+        0
+      );
+      io.stdout(`Wrote ${count} issue(s) to baseline ${options.baseline}\n`);
+      return 0;
+    }
+    try {
+      results = applyBaseline(results, readBaseline(baselinePath));
+    } catch (error) {
+      io.stderr(`tfl-lint: ${(error as Error).message}\n`);
+      return 2;
+    }
+  }
+
+  const output = getFormatter(options.format)!(results);
+  if (output) {
+    io.stdout(output.endsWith("\n") ? output : output + "\n");
+  }
+
+  let errorCount = 0;
+  let warningCount = 0;
+  results.forEach((result) =>
+    result.issues.forEach((issue) =>
+      issue.severity === "error" ? errorCount++ : warningCount++
+    )
+  );
+
+  if (errorCount > 0) {
+    return 1;
+  }
+  if (options.maxWarnings >= 0 && warningCount > options.maxWarnings) {
+    io.stderr(
+      `tfl-lint found too many warnings (maximum: ${options.maxWarnings}).\n`
+    );
+    return 1;
+  }
+  return 0;
+}
+
+if (require.main === module) {
+  process.exitCode = run(process.argv.slice(2), {
+    cwd: process.cwd(),
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  });
+}
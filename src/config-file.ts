@@ -0,0 +1,80 @@
+/**
+ * 配置文件的查找与读取
+ *
+ * 依赖 Node 内置模块，仅供 CLI 等 Node 环境使用，不从包入口导出
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { LintOptions } from "./types/lint";
+import {
+  ConfigError,
+  LintConfig,
+  resolveConfig,
+  validateConfig,
+} from "./config";
+
+// 按查找顺序排列的配置文件名
+export const CONFIG_FILE_NAMES = [
+  ".tfllintrc",
+  ".tfllintrc.json",
+  ".tfllintrc.js",
+  "tfllint.config.js",
+];
+
+/**
+ * 从工作目录开始向上查找配置文件
+ */
+export function findConfigFile(cwd: string): string | undefined {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const filePath = path.join(dir, name);
+      if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+        return filePath;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * 读取配置文件（.js 通过 require 加载，其余按 JSON 解析）
+ */
+export function loadConfigFile(filePath: string): LintConfig {
+  let config: unknown;
+  try {
+    if (filePath.endsWith(".js")) {
+      config = require(path.resolve(filePath));
+    } else {
+      config = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    }
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot load config file ${filePath}: ${(error as Error).message}`
+    );
+  }
+
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new ConfigError(`Config file ${filePath} must export an object`);
+  }
+  validateConfig(config as LintConfig, `Config file ${filePath}`);
+  return config as LintConfig;
+}
+
+/**
+ * 查找并解析工作目录下的配置，未找到时返回 undefined
+ */
+export function loadConfig(
+  cwd: string
+): { filePath: string; options: LintOptions } | undefined {
+  const filePath = findConfigFile(cwd);
+  if (!filePath) {
+    return undefined;
+  }
+  return { filePath, options: resolveConfig(loadConfigFile(filePath)) };
+}
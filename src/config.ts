@@ -0,0 +1,166 @@
+import {
+  LintMode,
+  LintOptions,
+  LintRuleSetting,
+  TradeSafetyOptions,
+} from "./types/lint";
+
+/**
+ * 配置文件内容（.tfllintrc / .tfllintrc.json / .tfllintrc.js）
+ *
+ * 本模块不依赖 Node 内置模块，可在浏览器中使用；配置文件的查找与读取见 config-file.ts
+ */
+export interface LintConfig {
+  extends?: string | string[]; // 继承的预设名称
+  mode?: LintMode;
+  strict?: boolean;
+  rules?: Record<string, LintRuleSetting>;
+  ignoreNodeTypes?: string[];
+  tradeSafety?: TradeSafetyOptions;
+}
+
+/**
+ * 配置文件错误
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * 内置预设
+ */
+export const PRESETS: Record<string, LintConfig> = {
+  // 内置规则的默认严重级别
+  recommended: {
+    rules: {},
+  },
+  // 所有警告提升为错误
+  strict: {
+    extends: "recommended",
+    strict: true,
+  },
+  // 面向实盘交易的发布前检查
+  "production-trading": {
+    extends: "strict",
+    rules: {
+      "plaintext-secret": "error",
+      "leaked-secret": "error",
+      "excessive-slippage": "error",
+      "prerelease-version": "error",
+      "invalid-vault-source": "error",
+    },
+    tradeSafety: {
+      maxSlippage: 2,
+    },
+  },
+};
+
+const RULE_SETTINGS: LintRuleSetting[] = ["error", "warning", "off"];
+const LINT_MODES: LintMode[] = ["flow", "node"];
+
+/**
+ * 检查配置中的规则设置和 mode，无效时抛出带键路径的 ConfigError
+ */
+export function validateConfig(config: LintConfig, source: string): void {
+  const expectOneOf = (key: string, value: unknown, allowed: string[]) => {
+    if (!allowed.includes(value as string)) {
+      throw new ConfigError(
+        `${source}: invalid ${key} ${JSON.stringify(
+          value
+        )}, expected one of: ${allowed.join(", ")}`
+      );
+    }
+  };
+
+  if (config.mode !== undefined) {
+    expectOneOf("mode", config.mode, LINT_MODES);
+  }
+  if (config.rules !== undefined) {
+    if (
+      !config.rules ||
+      typeof config.rules !== "object" ||
+      Array.isArray(config.rules)
+    ) {
+      throw new ConfigError(
+        `${source}: rules must be an object mapping rule codes to settings`
+      );
+    }
+    Object.keys(config.rules).forEach((code) => {
+      expectOneOf(
+        `rules[${JSON.stringify(code)}]`,
+        config.rules?.[code],
+        RULE_SETTINGS
+      );
+    });
+  }
+}
+
+/**
+ * 合并两份配置（后者覆盖前者，rules / tradeSafety 按键合并，ignoreNodeTypes 取并集）
+ */
+function mergeConfig(base: LintConfig, override: LintConfig): LintConfig {
+  const merged: LintConfig = { ...base, ...override };
+  merged.rules = { ...base.rules, ...override.rules };
+  if (base.tradeSafety || override.tradeSafety) {
+    merged.tradeSafety = { ...base.tradeSafety, ...override.tradeSafety };
+  }
+  if (base.ignoreNodeTypes || override.ignoreNodeTypes) {
+    merged.ignoreNodeTypes = Array.from(
+      new Set([
+        ...(base.ignoreNodeTypes || []),
+        ...(override.ignoreNodeTypes || []),
+      ])
+    );
+  }
+  delete merged.extends;
+  return merged;
+}
+
+/**
+ * 展开 extends，得到不含预设引用的完整配置
+ */
+function flattenConfig(config: LintConfig, seen: string[] = []): LintConfig {
+  const presetNames =
+    config.extends === undefined
+      ? []
+      : Array.isArray(config.extends)
+      ? config.extends
+      : [config.extends];
+
+  const base = presetNames.reduce<LintConfig>((result, name) => {
+    const preset = PRESETS[name];
+    if (!Object.prototype.hasOwnProperty.call(PRESETS, name)) {
+      throw new ConfigError(
+        `Unknown preset '${name}', expected one of: ${Object.keys(PRESETS).join(
+          ", "
+        )}`
+      );
+    }
+    if (seen.includes(name)) {
+      throw new ConfigError(
+        `Circular preset reference: ${[...seen, name].join(" -> ")}`
+      );
+    }
+    return mergeConfig(result, flattenConfig(preset, [...seen, name]));
+  }, {});
+
+  return mergeConfig(base, config);
+}
+
+/**
+ * 将配置解析为 LintOptions（规则设置或 mode 无效时抛出 ConfigError）
+ */
+export function resolveConfig(config: LintConfig): LintOptions {
+  validateConfig(config, "Config");
+  const { mode, strict, rules, ignoreNodeTypes, tradeSafety } =
+    flattenConfig(config);
+  const options: LintOptions = { rules: rules || {} };
+  if (mode !== undefined) options.mode = mode;
+  if (strict !== undefined) options.strict = strict;
+  if (ignoreNodeTypes) options.ignoreNodeTypes = ignoreNodeTypes;
+  if (tradeSafety) options.tradeSafety = tradeSafety;
+  return options;
+}
@@ -0,0 +1,197 @@
+import {
+  EditorFullFlow,
+  EssentialEdge,
+  EssentialFlow,
+  EssentialInput,
+  EssentialNode,
+  EssentialOutput,
+  FullEdge,
+  FullFlow,
+  FullInput,
+  FullNode,
+  FullOutput,
+  HandleColor,
+  NodeCollection,
+} from "./types/weather";
+import { NodeDefinition } from "./types/lint";
+import { createNodeRegistry, NodeRegistry } from "./node-registry";
+import { createSharedContext } from "./rules/context";
+import { getInputSchema } from "./rules/utils";
+
+// Essential 各层级保留的字段，其余（UI 配置、运行时状态、编辑器回调等）全部去除
+const ESSENTIAL_INPUT_FIELDS: Array<keyof EssentialInput> = [
+  "id",
+  "title",
+  "type",
+  "inputType",
+  "required",
+  "placeholder",
+  "value",
+  "min",
+  "max",
+  "skipUserValueRestore",
+  "switchOptions",
+  "advanced",
+  "isHidden",
+];
+const ESSENTIAL_OUTPUT_FIELDS: Array<keyof EssentialOutput> = [
+  "id",
+  "title",
+  "type",
+  "description",
+  "isDeleted",
+];
+const ESSENTIAL_NODE_FIELDS: Array<keyof EssentialNode> = [
+  "position",
+  "id",
+  "type",
+  "version",
+  "lintIgnore",
+];
+const ESSENTIAL_EDGE_FIELDS: Array<keyof EssentialEdge> = [
+  "id",
+  "source",
+  "target",
+  "sourceHandle",
+  "targetHandle",
+];
+const ESSENTIAL_FLOW_FIELDS: Array<keyof EssentialFlow> = [
+  "thumbnailUrl",
+  "name",
+  "lintIgnore",
+];
+
+// 节点类别对应的 handle 颜色
+const HANDLE_COLORS: Record<NodeDefinition["category"], HandleColor> = {
+  input: "sky",
+  compute: "sky",
+  trade: "emerald",
+  output: "rose",
+};
+
+// 编辑器中 collection 为 null 时按节点类别推断
+const CATEGORY_COLLECTIONS: Record<NodeDefinition["category"], NodeCollection> =
+  {
+    input: "input",
+    compute: "compute",
+    trade: "trade",
+    output: "core",
+  };
+
+/**
+ * 只复制指定字段（值为 undefined 的字段不复制）
+ */
+function pick<T>(source: T, fields: Array<keyof T>): Partial<T> {
+  const result: Partial<T> = {};
+  fields.forEach((field) => {
+    if (source[field] !== undefined) {
+      result[field] = source[field];
+    }
+  });
+  return result;
+}
+
+/**
+ * Full / EditorFull 工作流转为 Essential 版本（用于存储和传输）
+ *
+ * 去除 handle、options、_instanceState、preload、layout 等 UI 配置，
+ * 以及 data.edges、menuItems、执行状态等编辑器运行时字段
+ */
+export function toEssential(
+  flow: FullFlow | EditorFullFlow,
+  nodeRegistry: NodeRegistry = createNodeRegistry()
+): EssentialFlow {
+  return {
+    ...pick(flow as EssentialFlow, ESSENTIAL_FLOW_FIELDS),
+    nodes: flow.nodes.map((node) => {
+      const definition = nodeRegistry.get(node.type, node.version);
+      const collection =
+        node.data.collection ??
+        (definition ? CATEGORY_COLLECTIONS[definition.category] : "core");
+      return {
+        ...pick(node as EssentialNode, ESSENTIAL_NODE_FIELDS),
+        data: {
+          title: node.data.title,
+          description: node.data.description,
+          collection: collection as NodeCollection,
+          inputs: (node.data.inputs || []).map(
+            (input) =>
+              pick(
+                input as EssentialInput,
+                ESSENTIAL_INPUT_FIELDS
+              ) as EssentialInput
+          ),
+          outputs: (node.data.outputs || []).map(
+            (output) =>
+              pick(
+                output as EssentialOutput,
+                ESSENTIAL_OUTPUT_FIELDS
+              ) as EssentialOutput
+          ),
+        },
+      } as EssentialNode;
+    }),
+    edges: flow.edges.map(
+      (edge) =>
+        pick(edge as EssentialEdge, ESSENTIAL_EDGE_FIELDS) as EssentialEdge
+    ),
+  } as EssentialFlow;
+}
+
+/**
+ * Essential 工作流转为 Full 版本（用于前端展示）
+ *
+ * handle 颜色按节点类别、options 按输入 schema 的 enum 由节点定义补全；
+ * 未设置值且未连线的输入使用 schema 的 default 作为值。
+ * 除补充的默认值外不修改业务数据，因此输入均已设置值时 toEssential(toFull(flow)) 与 flow 一致
+ */
+export function toFull(
+  flow: EssentialFlow,
+  nodeRegistry: NodeRegistry = createNodeRegistry()
+): FullFlow {
+  const edges: FullEdge[] = flow.edges.map((edge) => ({
+    ...edge,
+    type: "default",
+  }));
+  const context = createSharedContext(flow, { nodeRegistry });
+
+  return {
+    ...flow,
+    nodes: flow.nodes.map((node): FullNode => {
+      const definition = nodeRegistry.get(node.type, node.version);
+      const handle = {
+        color: definition ? HANDLE_COLORS[definition.category] : "sky",
+      };
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          id: node.id,
+          edges: edges.filter(
+            (edge) => edge.source === node.id || edge.target === node.id
+          ),
+          inputs: (node.data.inputs || []).map((input): FullInput => {
+            const schema =
+              definition && input.id
+                ? getInputSchema(definition, input.id)
+                : undefined;
+            const useDefault =
+              input.value === undefined &&
+              schema?.default !== undefined &&
+              !context.isInputConnected(node.id, input.id);
+            return {
+              ...input,
+              ...(useDefault && { value: schema.default }),
+              handle: { ...handle },
+              ...(schema?.enum && { options: schema.enum.map(String) }),
+            };
+          }),
+          outputs: (node.data.outputs || []).map(
+            (output): FullOutput => ({ ...output, handle: { ...handle } })
+          ),
+        },
+      };
+    }),
+    edges,
+  };
+}
@@ -0,0 +1,397 @@
+import { NodeType } from "./types/weather";
+import { NodeDefinition } from "./types/lint";
+
+// TFL 节点定义
+// inputSchemas 中的 enum / pattern / minimum / maximum 会产生错误，只声明有依据的取值约束（如节点描述中的数据源）
+export const NODE_DEFINITIONS: Record<NodeType, NodeDefinition> = {
+  // Input Nodes
+  price_node: {
+    type: "price_node",
+    description: "Get cryptocurrency price data from CoinGecko",
+    category: "input",
+    requiredInputs: ["source", "data_type", "symbol"],
+    optionalInputs: [],
+    outputs: ["data"],
+    inputSchemas: {
+      // 数据源只有 CoinGecko（见节点描述）
+      source: {
+        type: "string",
+        enum: ["coingecko"],
+        caseInsensitive: true,
+        default: "coingecko",
+      },
+      data_type: { type: "string" },
+      symbol: { type: "string" },
+    },
+  },
+  gsheet_input_node: {
+    type: "gsheet_input_node",
+    description: "Load data from Google Sheets",
+    category: "input",
+    requiredInputs: ["doc_link"],
+    optionalInputs: [],
+    outputs: ["data"],
+    inputSchemas: {
+      // 节点读写 Google 表格，链接必须指向 Google Sheets
+      doc_link: {
+        type: "string",
+        pattern: "^https://docs\\.google\\.com/spreadsheets/",
+      },
+    },
+  },
+  x_listener_node: {
+    type: "x_listener_node",
+    description: "Monitor X (formerly Twitter) accounts",
+    category: "input",
+    requiredInputs: ["accounts"],
+    optionalInputs: ["keywords", "search_mode", "query_type", "limit"],
+    outputs: ["latest_tweets"],
+    inputSchemas: {
+      accounts: { type: ["array", "string"] },
+      keywords: { type: ["array", "string"] },
+      search_mode: { type: "string" },
+      query_type: { type: "string" },
+      limit: { type: "integer", minimum: 1, default: 20 },
+    },
+  },
+  rootdata_node: {
+    type: "rootdata_node",
+    description: "Query RootData API for projects/VC/people and related lists",
+    category: "input",
+    requiredInputs: ["operation"],
+    optionalInputs: [
+      "language",
+      "query",
+      "precise_x_search",
+      "type",
+      "project_id",
+      "contract_address",
+      "org_id",
+      "people_id",
+      "include_team",
+      "include_investors",
+      "include_investments",
+      "page",
+      "page_size",
+      "begin_time",
+      "end_time",
+      "min_amount",
+      "max_amount",
+      "days",
+      "rank_type",
+      "heat",
+      "influence",
+      "followers",
+      "recent_joinees",
+      "recent_resignations",
+      "ecosystem_ids",
+      "tag_ids",
+    ],
+    outputs: ["data"],
+    inputSchemas: {
+      operation: { type: "string" },
+      language: { type: "string" },
+      query: { type: "string" },
+      precise_x_search: { type: "boolean", default: false },
+      type: { type: "integer" },
+      project_id: { type: "integer", minimum: 1 },
+      contract_address: { type: "string" },
+      org_id: { type: "integer", minimum: 1 },
+      people_id: { type: "integer", minimum: 1 },
+      include_team: { type: "boolean", default: false },
+      include_investors: { type: "boolean", default: false },
+      include_investments: { type: "boolean", default: false },
+      page: { type: "integer", minimum: 1, default: 1 },
+      page_size: { type: "integer", minimum: 1, default: 10 },
+      begin_time: { type: "string" },
+      end_time: { type: "string" },
+      min_amount: { type: "number", minimum: 0 },
+      max_amount: { type: "number", minimum: 0 },
+      days: { type: "integer", minimum: 1 },
+      rank_type: { type: "integer" },
+      heat: { type: "boolean" },
+      influence: { type: "boolean" },
+      followers: { type: "boolean" },
+      recent_joinees: { type: "boolean" },
+      recent_resignations: { type: "boolean" },
+      ecosystem_ids: { type: ["string", "array"] },
+      tag_ids: { type: ["string", "array"] },
+    },
+    // 详情操作所需的 id 与 search 所需的 query 是已知契约；
+    // 其余约束（禁止多余的 id、id_map 需要 type）尚无后端文档确认，只给出警告
+    conditionalInputs: [
+      { when: { input: "operation", equals: "search" }, require: ["query"] },
+      {
+        when: { input: "operation", equals: "project_detail" },
+        require: ["project_id"],
+      },
+      {
+        when: { input: "operation", equals: "project_detail" },
+        forbid: ["org_id", "people_id"],
+        severity: "warning",
+      },
+      {
+        when: { input: "operation", equals: "org_detail" },
+        require: ["org_id"],
+      },
+      {
+        when: { input: "operation", equals: "org_detail" },
+        forbid: ["project_id", "people_id"],
+        severity: "warning",
+      },
+      {
+        when: { input: "operation", equals: "people_detail" },
+        require: ["people_id"],
+      },
+      {
+        when: { input: "operation", equals: "people_detail" },
+        forbid: ["project_id", "org_id"],
+        severity: "warning",
+      },
+      {
+        when: { input: "operation", equals: "id_map" },
+        require: ["type"],
+        severity: "warning",
+      },
+      {
+        when: { input: "operation", equals: "projects_by_ecosystems" },
+        require: ["ecosystem_ids"],
+      },
+      {
+        when: { input: "operation", equals: "projects_by_tags" },
+        require: ["tag_ids"],
+      },
+    ],
+  },
+  chaincatcher_node: {
+    type: "chaincatcher_node",
+    description: "Fetch articles and news flash from ChainCatcher",
+    category: "input",
+    requiredInputs: ["content_type"],
+    optionalInputs: [
+      "language",
+      "feat_type",
+      "article_type",
+      "news_flash_type",
+      "page",
+      "limit",
+    ],
+    outputs: ["data"],
+    inputSchemas: {
+      content_type: { type: "string" },
+      language: { type: "string" },
+      feat_type: { type: "string" },
+      article_type: { type: "string" },
+      news_flash_type: { type: "string" },
+      page: { type: "integer", minimum: 1, default: 1 },
+      limit: { type: "integer", minimum: 1, default: 20 },
+    },
+    // 尚无后端文档确认，只给出警告
+    conditionalInputs: [
+      {
+        when: { input: "content_type", equals: "article" },
+        forbid: ["news_flash_type"],
+        severity: "warning",
+      },
+      {
+        when: { input: "content_type", equals: "news_flash" },
+        forbid: ["article_type"],
+        severity: "warning",
+      },
+    ],
+  },
+
+  // Compute Nodes
+  ai_model_node: {
+    type: "ai_model_node",
+    description: "Run AI models for analysis and generation",
+    category: "compute",
+    requiredInputs: ["model", "prompt"],
+    optionalInputs: ["parameters"],
+    outputs: ["ai_response"],
+    inputSchemas: {
+      model: { type: "string" },
+      prompt: { type: "string" },
+      parameters: { type: "array" },
+    },
+    inputMultiplicity: {
+      prompt: "many", // 可汇总多个上游数据作为提示词
+    },
+  },
+  code_node: {
+    type: "code_node",
+    description: "Execute custom Python code",
+    category: "compute",
+    requiredInputs: ["python_code"],
+    optionalInputs: ["input_data"],
+    outputs: ["output_data"], // 🔥 修复：debug_output 已移除
+    inputSchemas: {
+      python_code: { type: "string" },
+    },
+    inputMultiplicity: {
+      input_data: "many",
+    },
+  },
+
+  // Trade Nodes
+  swap_node: {
+    type: "swap_node",
+    description: "Process swap operations and execute swaps",
+    category: "trade",
+    requiredInputs: [
+      "from_token",
+      "to_token",
+      "amount_in_human_readable",
+      "vault",
+    ],
+    optionalInputs: ["slippery"],
+    outputs: ["trade_receipt"],
+    inputSchemas: {
+      from_token: { type: "string" },
+      to_token: { type: "string" },
+      slippery: { type: "number", minimum: 0, maximum: 100, default: 1 },
+    },
+  },
+  buy_node: {
+    type: "buy_node",
+    description: "Process buy signals and execute buy operations",
+    category: "trade",
+    requiredInputs: [
+      "buy_token",
+      "base_token",
+      "amount_in_human_readable",
+      "vault",
+    ],
+    optionalInputs: ["slippery"],
+    outputs: ["trade_receipt"],
+    inputSchemas: {
+      buy_token: { type: "string" },
+      base_token: { type: "string" },
+      slippery: { type: "number", minimum: 0, maximum: 100, default: 1 },
+    },
+  },
+  sell_node: {
+    type: "sell_node",
+    description: "Process sell signals and execute sell operations",
+    category: "trade",
+    requiredInputs: [
+      "sell_token",
+      "base_token",
+      "amount_in_human_readable",
+      "vault",
+    ],
+    optionalInputs: ["slippery"],
+    outputs: ["trade_receipt"],
+    inputSchemas: {
+      sell_token: { type: "string" },
+      base_token: { type: "string" },
+      slippery: { type: "number", minimum: 0, maximum: 100, default: 1 },
+    },
+  },
+  vault_node: {
+    type: "vault_node",
+    description: "Display user's vault information",
+    category: "trade",
+    requiredInputs: ["vault_address", "chain"],
+    optionalInputs: [],
+    outputs: ["vault"], // 🔥 修复：统一为单一 vault 输出
+    inputSchemas: {
+      vault_address: { type: "string" },
+      chain: { type: "string" },
+    },
+  },
+  // R&D Mode Trade Nodes
+  private_key_node: {
+    type: "private_key_node",
+    description:
+      "Store a blockchain private key and output an Operator for CodeNode (R&D Mode)",
+    category: "trade",
+    requiredInputs: ["chain", "private_key"],
+    optionalInputs: [],
+    outputs: ["operator"],
+    inputSchemas: {
+      chain: { type: "string" },
+      private_key: { type: "string", secret: true },
+    },
+  },
+  exchange_api_node: {
+    type: "exchange_api_node",
+    description:
+      "Store exchange API credentials and output an Operator for CodeNode (R&D Mode)",
+    category: "trade",
+    requiredInputs: ["exchange", "api_key", "api_secret"],
+    optionalInputs: ["passphrase"],
+    outputs: ["operator"],
+    inputSchemas: {
+      exchange: { type: "string" },
+      api_key: { type: "string", secret: true },
+      api_secret: { type: "string", secret: true },
+      passphrase: { type: "string", secret: true },
+    },
+  },
+
+  // Output Nodes
+  gsheet_output_node: {
+    type: "gsheet_output_node",
+    description: "Save data to Google Sheets",
+    category: "output",
+    requiredInputs: ["doc_link", "data"],
+    optionalInputs: [],
+    outputs: ["status_output_handle", "error_handle"],
+    inputSchemas: {
+      // 节点读写 Google 表格，链接必须指向 Google Sheets
+      doc_link: {
+        type: "string",
+        pattern: "^https://docs\\.google\\.com/spreadsheets/",
+      },
+    },
+    inputMultiplicity: {
+      data: "many",
+    },
+  },
+  gdoc_output_node: {
+    type: "gdoc_output_node",
+    description: "Write content to Google Docs",
+    category: "output",
+    requiredInputs: ["doc_link", "content"],
+    optionalInputs: ["mode"],
+    outputs: ["status_output_handle", "error_handle"],
+    inputSchemas: {
+      // 节点写入 Google 文档，链接必须指向 Google Docs
+      doc_link: {
+        type: "string",
+        pattern: "^https://docs\\.google\\.com/document/",
+      },
+      content: { type: ["string", "object", "array"] },
+      mode: { type: "string" },
+    },
+    inputMultiplicity: {
+      content: "many",
+    },
+  },
+  telegram_sender_node: {
+    type: "telegram_sender_node",
+    description: "Send messages to Telegram",
+    category: "output",
+    requiredInputs: ["account_to_send", "messages"],
+    optionalInputs: [],
+    outputs: ["status_output_handle", "error_handle"],
+    inputSchemas: {
+      account_to_send: { type: "string" },
+    },
+    inputMultiplicity: {
+      messages: "many",
+    },
+  },
+
+  // Interactive Nodes
+  candleline_node: {
+    type: "candleline_node",
+    description:
+      "Interactive K-line (candlestick) chart with drawing tools and threshold triggers",
+    category: "input", // 归类为 input，因为它接收价格数据并输出分析结果
+    requiredInputs: ["price_data"],
+    optionalInputs: [],
+    outputs: ["data"],
+  },
+};
@@ -0,0 +1,133 @@
+import { FixOperation, FlowData, LintIssue } from "./types/lint";
+
+/**
+ * 构建 JSON Pointer（对路径片段进行转义）
+ */
+export function toPointer(...segments: Array<string | number>): string {
+  return segments
+    .map(
+      (segment) =>
+        "/" + String(segment).replace(/~/g, "~0").replace(/\//g, "~1")
+    )
+    .join("");
+}
+
+/**
+ * 解析 JSON Pointer
+ */
+function parsePointer(path: string): string[] {
+  if (!path.startsWith("/")) {
+    throw new Error(`Invalid fix path: ${path}`);
+  }
+  return path
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+const isContainer = (
+  value: unknown
+): value is Record<string, unknown> | unknown[] =>
+  typeof value === "object" && value !== null;
+
+/**
+ * 在目标对象上应用单个修复操作（原地修改）
+ */
+function applyOperation(target: unknown, operation: FixOperation): void {
+  const segments = parsePointer(operation.path);
+  const key = segments.pop() as string;
+  let parent = target;
+  for (const segment of segments) {
+    parent = isContainer(parent)
+      ? (parent as Record<string, unknown>)[segment]
+      : undefined;
+  }
+  if (!isContainer(parent)) {
+    throw new Error(`Fix path does not exist: ${operation.path}`);
+  }
+
+  if (Array.isArray(parent)) {
+    const index = key === "-" ? parent.length : Number(key);
+    if (operation.op === "add") {
+      parent.splice(index, 0, operation.value);
+    } else if (operation.op === "remove") {
+      parent.splice(index, 1);
+    } else {
+      parent[index] = operation.value;
+    }
+    return;
+  }
+
+  if (operation.op === "remove") {
+    delete parent[key];
+  } else {
+    parent[key] = operation.value;
+  }
+}
+
+/**
+ * 检查两个路径是否互相包含（同一位置或父子关系）
+ */
+function pathsOverlap(a: string, b: string): boolean {
+  return a === b || a.startsWith(b + "/") || b.startsWith(a + "/");
+}
+
+/**
+ * 比较两个删除路径：同一数组内索引大的先删除，避免索引偏移
+ */
+function compareRemovePaths(a: string, b: string): number {
+  const aSegments = parsePointer(a);
+  const bSegments = parsePointer(b);
+  for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+    if (aSegments[i] !== bSegments[i]) {
+      const aIndex = Number(aSegments[i]);
+      const bIndex = Number(bSegments[i]);
+      if (!Number.isNaN(aIndex) && !Number.isNaN(bIndex)) {
+        return bIndex - aIndex;
+      }
+      return aSegments[i] < bSegments[i] ? -1 : 1;
+    }
+  }
+  return bSegments.length - aSegments.length;
+}
+
+/**
+ * 应用 lint 问题中携带的修复，返回新的工作流（不修改原对象）
+ *
+ * - 与已采纳修复的路径重叠的修复会被跳过，可再次 lint 后继续修复
+ * - 删除操作统一在最后按索引从大到小执行，保证数组索引不失效
+ */
+export function applyFixes<T extends FlowData>(
+  flow: T,
+  issues: LintIssue[]
+): T {
+  const result: T = JSON.parse(JSON.stringify(flow));
+  const touchedPaths: string[] = [];
+  const updates: FixOperation[] = [];
+  const removals: FixOperation[] = [];
+
+  issues.forEach((issue) => {
+    const operations = issue.fix?.operations || [];
+    if (operations.length === 0) {
+      return;
+    }
+    const conflicts = operations.some((operation) =>
+      touchedPaths.some((path) => pathsOverlap(path, operation.path))
+    );
+    if (conflicts) {
+      return;
+    }
+
+    operations.forEach((operation) => {
+      touchedPaths.push(operation.path);
+      (operation.op === "remove" ? removals : updates).push(operation);
+    });
+  });
+
+  updates.forEach((operation) => applyOperation(result, operation));
+  removals
+    .sort((a, b) => compareRemovePaths(a.path, b.path))
+    .forEach((operation) => applyOperation(result, operation));
+
+  return result;
+}
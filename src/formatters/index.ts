@@ -0,0 +1,53 @@
+/**
+ * Formatters barrel file - lint result formatters shared by the library and CLI
+ * 格式化器桶文件 - 库与 CLI 共用的 lint 结果格式化器
+ */
+
+import { LintFormatter, LintIssue } from "../types/lint";
+import { stylish } from "./stylish";
+import { json } from "./json";
+import { sarif } from "./sarif";
+import { junit } from "./junit";
+
+export { stylish } from "./stylish";
+export { json } from "./json";
+export { sarif } from "./sarif";
+export { junit } from "./junit";
+
+/**
+ * 内置格式化器（按名称索引）
+ */
+export const FORMATTERS: Record<string, LintFormatter> = {
+  stylish,
+  json,
+  sarif,
+  junit,
+};
+
+/**
+ * 按名称获取格式化器
+ */
+export function getFormatter(name: string): LintFormatter | undefined {
+  return Object.prototype.hasOwnProperty.call(FORMATTERS, name)
+    ? FORMATTERS[name]
+    : undefined;
+}
+
+/**
+ * 便捷函数：格式化单个工作流的 lint 结果
+ */
+export function formatIssues(
+  issues: LintIssue[],
+  format = "stylish",
+  filePath = "flow.json"
+): string {
+  const formatter = getFormatter(format);
+  if (!formatter) {
+    throw new Error(
+      `Unknown format '${format}', expected one of: ${Object.keys(
+        FORMATTERS
+      ).join(", ")}`
+    );
+  }
+  return formatter([{ filePath, issues }]);
+}
@@ -0,0 +1,16 @@
+import { LintFormatter } from "../types/lint";
+import { countIssues } from "./utils";
+
+/**
+ * JSON 格式（每个文件附带错误和警告数量）
+ */
+export const json: LintFormatter = (results) =>
+  JSON.stringify(
+    results.map((result) => ({
+      filePath: result.filePath,
+      ...countIssues(result.issues),
+      issues: result.issues,
+    })),
+    null,
+    2
+  );
@@ -0,0 +1,62 @@
+import { LintFormatter } from "../types/lint";
+import { countIssues, formatLocation } from "./utils";
+
+/**
+ * 转义 XML 特殊字符
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * JUnit XML 格式（每个文件一个 testsuite，每个问题一个失败的 testcase；
+ * 没有问题的文件输出一个通过的 testcase）
+ */
+export const junit: LintFormatter = (results) => {
+  const lines: string[] = ['<?xml version="1.0" encoding="utf-8"?>'];
+  let totalTests = 0;
+  let totalFailures = 0;
+  const suites: string[] = [];
+
+  results.forEach((result) => {
+    const filePath = escapeXml(result.filePath);
+    const { errorCount, warningCount } = countIssues(result.issues);
+    const failures = errorCount + warningCount;
+    const tests = Math.max(failures, 1);
+    totalTests += tests;
+    totalFailures += failures;
+
+    suites.push(
+      `  <testsuite name="${filePath}" tests="${tests}" failures="${failures}" errors="0">`
+    );
+    if (result.issues.length === 0) {
+      suites.push(
+        `    <testcase classname="${filePath}" name="tfl-lint" time="0" />`
+      );
+    }
+    result.issues.forEach((issue) => {
+      const location = escapeXml(formatLocation(issue));
+      const message = escapeXml(issue.message);
+      suites.push(
+        `    <testcase classname="${filePath}" name="${escapeXml(
+          issue.code
+        )}: ${location}" time="0">`,
+        `      <failure message="${message}" type="${issue.severity}">${issue.severity}: ${message} (${location})</failure>`,
+        "    </testcase>"
+      );
+    });
+    suites.push("  </testsuite>");
+  });
+
+  lines.push(
+    `<testsuites name="tfl-lint" tests="${totalTests}" failures="${totalFailures}" errors="0">`,
+    ...suites,
+    "</testsuites>"
+  );
+  return lines.join("\n") + "\n";
+};
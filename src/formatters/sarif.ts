@@ -0,0 +1,92 @@
+import { LintFormatter, LintIssue } from "../types/lint";
+import { BUILTIN_RULES } from "../rules";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+/**
+ * 问题对应的 SARIF 逻辑位置（节点/边 id，字段级问题附带字段）
+ */
+function toLogicalLocations(issue: LintIssue) {
+  if (!issue.elementId) {
+    return undefined;
+  }
+  const elementPath = `${issue.elementType || "node"}s/${issue.elementId}`;
+  if (issue.fieldId) {
+    return [
+      {
+        name: issue.fieldId,
+        fullyQualifiedName: `${elementPath}/${issue.fieldType || "input"}s/${
+          issue.fieldId
+        }`,
+        kind: "property",
+      },
+    ];
+  }
+  return [
+    {
+      name: issue.elementId,
+      fullyQualifiedName: elementPath,
+      kind: "object",
+    },
+  ];
+}
+
+/**
+ * SARIF 2.1.0 格式（code 作为 ruleId，节点/边 id 作为逻辑位置）
+ */
+export const sarif: LintFormatter = (results) => {
+  const ruleIds: string[] = [];
+  results.forEach((result) =>
+    result.issues.forEach((issue) => {
+      if (!ruleIds.includes(issue.code)) {
+        ruleIds.push(issue.code);
+      }
+    })
+  );
+
+  const rules = ruleIds.map((id) => {
+    const rule = BUILTIN_RULES.find((item) => item.meta.code === id);
+    return {
+      id,
+      shortDescription: { text: rule?.meta.description || id },
+      defaultConfiguration: { level: rule?.meta.severity || "warning" },
+    };
+  });
+
+  const sarifResults = ([] as object[]).concat(
+    ...results.map((result) =>
+      result.issues.map((issue) => {
+        const logicalLocations = toLogicalLocations(issue);
+        return {
+          ruleId: issue.code,
+          ruleIndex: ruleIds.indexOf(issue.code),
+          level: issue.severity,
+          message: { text: issue.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: result.filePath.replace(/\\/g, "/") },
+              },
+              ...(logicalLocations && { logicalLocations }),
+            },
+          ],
+        };
+      })
+    )
+  );
+
+  return JSON.stringify(
+    {
+      $schema: SARIF_SCHEMA,
+      version: "2.1.0",
+      runs: [
+        {
+          tool: { driver: { name: "tfl-lint", rules } },
+          results: sarifResults,
+        },
+      ],
+    },
+    null,
+    2
+  );
+};
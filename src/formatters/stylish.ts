@@ -0,0 +1,53 @@
+import { LintFormatter, LintIssue } from "../types/lint";
+import { countIssues, formatLocation, pluralize } from "./utils";
+
+/**
+ * 人类可读的文本格式（按文件分组，末尾输出汇总）
+ */
+export const stylish: LintFormatter = (results) => {
+  const lines: string[] = [];
+  const allIssues = ([] as LintIssue[]).concat(
+    ...results.map((result) => result.issues)
+  );
+
+  results.forEach((result) => {
+    if (result.issues.length === 0) {
+      return;
+    }
+    const rows = result.issues.map((issue) => [
+      formatLocation(issue),
+      issue.severity,
+      issue.message,
+      issue.code,
+    ]);
+    const widths = [0, 1].map((column) =>
+      Math.max(...rows.map((row) => row[column].length))
+    );
+
+    lines.push(result.filePath);
+    rows.forEach(([location, severity, message, code]) => {
+      lines.push(
+        `  ${location.padEnd(widths[0])}  ${severity.padEnd(
+          widths[1]
+        )}  ${message}  ${code}`
+      );
+    });
+    lines.push("");
+  });
+
+  if (allIssues.length === 0) {
+    return "";
+  }
+
+  const { errorCount, warningCount } = countIssues(allIssues);
+  lines.push(
+    `✖ ${allIssues.length} ${pluralize(
+      "problem",
+      allIssues.length
+    )} (${errorCount} ${pluralize(
+      "error",
+      errorCount
+    )}, ${warningCount} ${pluralize("warning", warningCount)})`
+  );
+  return lines.join("\n") + "\n";
+};
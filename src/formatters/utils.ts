@@ -0,0 +1,28 @@
+import { LintIssue } from "../types/lint";
+
+/**
+ * 描述问题所在位置，如 node buy_1 › amount_in_human_readable
+ */
+export function formatLocation(issue: LintIssue): string {
+  const element = issue.elementId
+    ? `${issue.elementType || "node"} ${issue.elementId}`
+    : issue.elementType || "flow";
+  return issue.fieldId ? `${element} › ${issue.fieldId}` : element;
+}
+
+/**
+ * 统计错误和警告数量
+ */
+export function countIssues(issues: LintIssue[]): {
+  errorCount: number;
+  warningCount: number;
+} {
+  const errorCount = issues.filter(
+    (issue) => issue.severity === "error"
+  ).length;
+  return { errorCount, warningCount: issues.length - errorCount };
+}
+
+export function pluralize(word: string, count: number): string {
+  return count === 1 ? word : `${word}s`;
+}
@@ -0,0 +1,100 @@
+import * as fs from "fs";
+import * as path from "path";
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * 检查路径是否包含通配符
+ */
+export function isGlob(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern);
+}
+
+/**
+ * 将 glob 模式转换为匹配 posix 相对路径的正则
+ * 支持 **、*、?、[...] 和 {a,b}
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        const followedBySlash = pattern[i + 2] === "/";
+        source += followedBySlash ? "(?:.*/)?" : ".*";
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += pattern.slice(i, end + 1);
+        i = end;
+      }
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 递归列出目录下的文件（跳过 node_modules 和隐藏目录）
+ */
+function walk(dir: string, result: string[] = []): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return result;
+  }
+  entries.forEach((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+        walk(fullPath, result);
+      }
+    } else if (entry.isFile()) {
+      result.push(fullPath);
+    }
+  });
+  return result;
+}
+
+/**
+ * 展开 glob 模式为匹配的文件路径（按字母序），非 glob 路径原样返回
+ */
+export function expandGlob(pattern: string, cwd: string): string[] {
+  if (!isGlob(pattern)) {
+    return [path.resolve(cwd, pattern)];
+  }
+
+  // 取通配符之前的目录作为遍历起点
+  const segments = pattern.replace(/\\/g, "/").split("/");
+  const baseSegments: string[] = [];
+  while (segments.length > 1 && !isGlob(segments[0])) {
+    baseSegments.push(segments.shift() as string);
+  }
+  const baseDir = path.resolve(cwd, baseSegments.join("/") || ".");
+  const matcher = globToRegExp(segments.join("/"));
+
+  return walk(baseDir)
+    .filter((file) =>
+      matcher.test(path.relative(baseDir, file).split(path.sep).join("/"))
+    )
+    .sort();
+}
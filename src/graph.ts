@@ -0,0 +1,296 @@
+import { EssentialEdge, EssentialNode } from "./types/weather";
+import { FlowData, LintMode } from "./types/lint";
+import { stripHandleSuffix } from "./rules/utils";
+
+/**
+ * 边是否连接自已删除的输出（这类边不传递数据，执行计划与可达性规则都忽略它们）
+ */
+export function isFromDeletedOutput(
+  edge: EssentialEdge,
+  source: EssentialNode | undefined
+): boolean {
+  const outputId = edge.sourceHandle && stripHandleSuffix(edge.sourceHandle);
+  const output = (source?.data?.outputs || []).find(
+    (item) => item?.id === outputId
+  );
+  return output?.isDeleted === true;
+}
+
+/**
+ * 按源节点分组的出边（只包含两端节点都存在的边）
+ */
+export function buildOutgoingEdges(
+  nodeIds: string[],
+  edges: EssentialEdge[]
+): Map<string, EssentialEdge[]> {
+  const outgoing = new Map<string, EssentialEdge[]>();
+  nodeIds.forEach((id) => outgoing.set(id, []));
+  edges.forEach((edge) => {
+    if (edge && outgoing.has(edge.source) && outgoing.has(edge.target)) {
+      (outgoing.get(edge.source) as EssentialEdge[]).push(edge);
+    }
+  });
+  return outgoing;
+}
+
+/**
+ * 查找强连通分量（Tarjan 算法，迭代实现以支持大型工作流）
+ *
+ * 分量内节点与分量之间均按 nodeIds 中的顺序排列
+ */
+export function findStronglyConnectedComponents(
+  nodeIds: string[],
+  outgoing: Map<string, EssentialEdge[]>
+): string[][] {
+  const order = new Map(nodeIds.map((id, index) => [id, index]));
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  nodeIds.forEach((root) => {
+    if (indexes.has(root)) {
+      return;
+    }
+    // 调用栈：节点及其下一条待访问出边的位置
+    const callStack: Array<{ id: string; edgeIndex: number }> = [];
+    const visit = (id: string) => {
+      indexes.set(id, nextIndex);
+      lowLinks.set(id, nextIndex);
+      nextIndex++;
+      stack.push(id);
+      onStack.add(id);
+      callStack.push({ id, edgeIndex: 0 });
+    };
+    visit(root);
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+      const edges = outgoing.get(frame.id) || [];
+      if (frame.edgeIndex < edges.length) {
+        const target = edges[frame.edgeIndex++].target;
+        if (!indexes.has(target)) {
+          visit(target);
+        } else if (onStack.has(target)) {
+          lowLinks.set(
+            frame.id,
+            Math.min(
+              lowLinks.get(frame.id) as number,
+              indexes.get(target) as number
+            )
+          );
+        }
+        continue;
+      }
+
+      callStack.pop();
+      const parent = callStack[callStack.length - 1];
+      if (parent) {
+        lowLinks.set(
+          parent.id,
+          Math.min(
+            lowLinks.get(parent.id) as number,
+            lowLinks.get(frame.id) as number
+          )
+        );
+      }
+      if (lowLinks.get(frame.id) === indexes.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop() as string;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(
+          component.sort(
+            (a, b) => (order.get(a) as number) - (order.get(b) as number)
+          )
+        );
+      }
+    }
+  });
+
+  return components.sort(
+    (a, b) => (order.get(a[0]) as number) - (order.get(b[0]) as number)
+  );
+}
+
+/**
+ * 在强连通分量内查找经过 start 的最短环，返回环上的边（按顺序）
+ */
+export function findShortestCycle(
+  start: string,
+  component: Set<string>,
+  outgoing: Map<string, EssentialEdge[]>
+): EssentialEdge[] | undefined {
+  const previousEdge = new Map<string, EssentialEdge>();
+  const queue = [start];
+  for (let head = 0; head < queue.length; head++) {
+    const id = queue[head];
+    for (const edge of outgoing.get(id) || []) {
+      if (!component.has(edge.target)) {
+        continue;
+      }
+      if (edge.target === start) {
+        // 回溯得到从 start 出发再回到 start 的路径
+        const cycle = [edge];
+        let current = id;
+        while (current !== start) {
+          const incoming = previousEdge.get(current) as EssentialEdge;
+          cycle.unshift(incoming);
+          current = incoming.source;
+        }
+        return cycle;
+      }
+      if (!previousEdge.has(edge.target)) {
+        previousEdge.set(edge.target, edge);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 从起点出发沿邻接表可到达的所有节点（包含起点）
+ */
+export function findReachable(
+  starts: string[],
+  adjacency: Map<string, string[]>
+): Set<string> {
+  const reached = new Set(starts);
+  const queue = [...starts];
+  for (let head = 0; head < queue.length; head++) {
+    (adjacency.get(queue[head]) || []).forEach((next) => {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  return reached;
+}
+
+/**
+ * 执行计划
+ */
+export interface ExecutionPlan {
+  order: string[]; // 拓扑顺序（按阶段展开）
+  stages: string[][]; // 执行阶段，同一阶段内的节点互不依赖，可并行执行
+  cycles: string[][]; // 构成循环依赖的节点组；这些节点及其下游节点不会出现在 order 中
+  upstream?: string[]; // node 模式：目标节点依赖的所有上游节点（按拓扑顺序）
+}
+
+/**
+ * 执行计划选项
+ */
+export interface ExecutionPlanOptions {
+  mode?: LintMode;
+  nodeId?: string; // node 模式下要执行的节点
+}
+
+/**
+ * 根据连线计算执行计划，与可达性规则使用相同的图语义
+ * （忽略引用不存在节点的边和连接自已删除输出的边，重复 id 以首个节点为准）
+ *
+ * node 模式下只规划目标节点及其上游节点
+ */
+export function planExecution(
+  flow: FlowData,
+  options: ExecutionPlanOptions = {}
+): ExecutionPlan {
+  const nodeMap = new Map<string, EssentialNode>();
+  (flow.nodes || []).forEach((node) => {
+    if (node?.id && !nodeMap.has(node.id)) {
+      nodeMap.set(node.id, node);
+    }
+  });
+  const nodeIds = Array.from(nodeMap.keys());
+  const edges = (flow.edges || []).filter(
+    (edge) => edge && !isFromDeletedOutput(edge, nodeMap.get(edge.source))
+  );
+  const outgoing = buildOutgoingEdges(nodeIds, edges);
+
+  // 依赖关系：节点 -> 其直接上游节点
+  const dependencies = new Map<string, string[]>();
+  nodeIds.forEach((id) => dependencies.set(id, []));
+  outgoing.forEach((edges, source) =>
+    edges.forEach((edge) => {
+      const sources = dependencies.get(edge.target) as string[];
+      if (!sources.includes(source)) {
+        sources.push(source);
+      }
+    })
+  );
+
+  let upstream: Set<string> | undefined;
+  if (options.mode === "node") {
+    if (!options.nodeId || !nodeMap.has(options.nodeId)) {
+      throw new Error(
+        `planExecution in node mode requires an existing nodeId, got: ${options.nodeId}`
+      );
+    }
+    upstream = findReachable([options.nodeId], dependencies);
+  }
+  const planned = upstream
+    ? nodeIds.filter((id) => (upstream as Set<string>).has(id))
+    : nodeIds;
+  const isPlanned = (id: string) => !upstream || upstream.has(id);
+  const graph = upstream ? buildOutgoingEdges(planned, edges) : outgoing;
+
+  // Kahn 算法按层划分阶段
+  const remaining = new Map(
+    planned.map((id) => [
+      id,
+      (dependencies.get(id) as string[]).filter(isPlanned).length,
+    ])
+  );
+  const stages: string[][] = [];
+  let stage = planned.filter((id) => remaining.get(id) === 0);
+  while (stage.length > 0) {
+    stages.push(stage);
+    const ready = new Set<string>();
+    stage.forEach((id) => {
+      remaining.delete(id);
+      (graph.get(id) || []).forEach(({ target }) => {
+        if (remaining.has(target) && !ready.has(target)) {
+          // 同一对节点之间的多条边只算一次依赖
+          ready.add(target);
+        }
+      });
+    });
+    ready.forEach((id) => {
+      const sources = (dependencies.get(id) as string[]).filter(isPlanned);
+      remaining.set(
+        id,
+        sources.filter((source) => remaining.has(source)).length
+      );
+    });
+    stage = planned.filter((id) => ready.has(id) && remaining.get(id) === 0);
+  }
+
+  const cycles = findStronglyConnectedComponents(planned, graph).filter(
+    (component) =>
+      component.length > 1 ||
+      (graph.get(component[0]) || []).some(
+        (edge) => edge.target === component[0]
+      )
+  );
+  const order = stages.reduce<string[]>((all, ids) => all.concat(ids), []);
+  const scheduled = new Set(order);
+
+  return {
+    order,
+    stages,
+    cycles,
+    // 处于循环中的上游节点排在可调度节点之后
+    ...(upstream && {
+      upstream: order
+        .concat(planned.filter((id) => !scheduled.has(id)))
+        .filter((id) => id !== options.nodeId),
+    }),
+  };
+}
@@ -0,0 +1,347 @@
+import { EssentialEdge, EssentialNode } from "./types/weather";
+import { FlowData, LintIssue, LintOptions, LintRule } from "./types/lint";
+import type { TFLLint } from "./index";
+import { createSharedContext } from "./rules/context";
+import { assignFingerprints } from "./result";
+import { hasBlockingProblems, validateFlowStructure } from "./structure";
+
+/**
+ * 工作流变更（节点按 id、边按 id 定位）
+ */
+export type FlowChange =
+  | { type: "add-node"; node: EssentialNode; index?: number }
+  | { type: "update-node"; node: EssentialNode }
+  | { type: "remove-node"; id: string }
+  | { type: "add-edge"; edge: EssentialEdge }
+  | { type: "update-edge"; edge: EssentialEdge }
+  | { type: "remove-edge"; id: string };
+
+/**
+ * 增量 lint 结果
+ */
+export interface IncrementalLintResult {
+  issues: LintIssue[]; // 当前全部问题（带 fingerprint）
+  added: LintIssue[]; // 本次变更新增的问题
+  removed: LintIssue[]; // 本次变更消失的问题
+}
+
+/**
+ * 单个节点的缓存问题（按规则 code 分组）
+ */
+interface NodeIssueCache {
+  index: number; // 计算时节点所在位置，用于修正 fix 路径
+  issues: Map<string, LintIssue[]>;
+}
+
+/**
+ * 增量 linter：保存工作流副本，根据变更只对受影响的节点重新执行 scope 为 node 的规则
+ *
+ * 其余规则（重复 id、重叠、连线和环检测等）每次对整个工作流执行；
+ * 结果与对变更后的工作流调用 lintFlow 一致（存在重复节点 id 时问题顺序可能不同）
+ */
+export class IncrementalLinter {
+  private flow: FlowData;
+  private nodeCache = new Map<string, NodeIssueCache>();
+  private issues: LintIssue[] = [];
+  private hasTypeErrors = false; // 上次因阻止规则执行的结构问题跳过了规则，缓存需要全量重建
+  private registryRevision: number; // 缓存对应的节点注册表修订号，注册表变化后缓存需要全量重建
+
+  constructor(
+    private linter: TFLLint,
+    data: FlowData,
+    private options: LintOptions
+  ) {
+    this.flow = { ...data, nodes: [...data.nodes], edges: [...data.edges] };
+    this.registryRevision = this.getRegistryRevision();
+    this.issues = this.relint(this.getNodeIds());
+  }
+
+  /**
+   * 当前工作流（包含已应用的变更）
+   */
+  getFlow(): FlowData {
+    return this.flow;
+  }
+
+  /**
+   * 当前全部问题
+   */
+  getIssues(): LintIssue[] {
+    return this.issues;
+  }
+
+  /**
+   * 应用一组变更并重新 lint，返回新增和消失的问题
+   */
+  applyChanges(changes: FlowChange[]): IncrementalLintResult {
+    const dirty = new Set<string>();
+    changes.forEach((change) => this.applyChange(change, dirty));
+    return this.update(dirty);
+  }
+
+  /**
+   * 丢弃全部缓存并重新 lint（节点注册表之外的外部状态变化后调用；注册表的变化会自动检测）
+   */
+  invalidateAll(): IncrementalLintResult {
+    return this.update(this.getNodeIds());
+  }
+
+  /**
+   * 重新 lint 并与上次的问题比较
+   */
+  private update(dirty: Set<string>): IncrementalLintResult {
+    const previous = this.issues;
+    this.issues = this.relint(dirty);
+
+    const previousFingerprints = new Set(
+      previous.map((issue) => issue.fingerprint)
+    );
+    const currentFingerprints = new Set(
+      this.issues.map((issue) => issue.fingerprint)
+    );
+    return {
+      issues: this.issues,
+      added: this.issues.filter(
+        (issue) => !previousFingerprints.has(issue.fingerprint)
+      ),
+      removed: previous.filter(
+        (issue) => !currentFingerprints.has(issue.fingerprint)
+      ),
+    };
+  }
+
+  /**
+   * 应用单个变更，并记录需要重新检查的节点 id
+   *
+   * 节点规则依赖节点自身、输入连线及其源节点，因此节点变更会影响下游节点，边变更会影响目标节点
+   */
+  private applyChange(change: FlowChange, dirty: Set<string>): void {
+    const { nodes, edges } = this.flow;
+    const markDownstream = (nodeId: string) =>
+      edges.forEach((edge) => {
+        if (edge?.source === nodeId && edge.target) {
+          dirty.add(edge.target);
+        }
+      });
+
+    switch (change.type) {
+      case "add-node": {
+        const index = change.index ?? nodes.length;
+        nodes.splice(index, 0, change.node);
+        dirty.add(change.node.id);
+        markDownstream(change.node.id);
+        break;
+      }
+      case "update-node": {
+        const index = this.findNodeIndex(change.node.id);
+        nodes[index] = change.node;
+        dirty.add(change.node.id);
+        markDownstream(change.node.id);
+        break;
+      }
+      case "remove-node": {
+        nodes.splice(this.findNodeIndex(change.id), 1);
+        // 存在重复 id 时剩余同 id 节点需要重新检查
+        dirty.add(change.id);
+        markDownstream(change.id);
+        break;
+      }
+      case "add-edge":
+        edges.push(change.edge);
+        dirty.add(change.edge.target);
+        break;
+      case "update-edge": {
+        const index = this.findEdgeIndex(change.edge.id);
+        dirty.add(edges[index].target);
+        edges[index] = change.edge;
+        dirty.add(change.edge.target);
+        break;
+      }
+      case "remove-edge": {
+        const index = this.findEdgeIndex(change.id);
+        dirty.add(edges[index].target);
+        edges.splice(index, 1);
+        break;
+      }
+    }
+  }
+
+  private findNodeIndex(id: string): number {
+    const index = this.flow.nodes.findIndex((node) => node?.id === id);
+    if (index === -1) {
+      throw new Error(`Node not found: ${id}`);
+    }
+    return index;
+  }
+
+  private findEdgeIndex(id: string): number {
+    const index = this.flow.edges.findIndex((edge) => edge?.id === id);
+    if (index === -1) {
+      throw new Error(`Edge not found: ${id}`);
+    }
+    return index;
+  }
+
+  private getRegistryRevision(): number {
+    return this.options.nodeRegistry?.getRevision() ?? 0;
+  }
+
+  private getNodeIds(): Set<string> {
+    const ids = new Set<string>();
+    this.flow.nodes.forEach((node) => node?.id && ids.add(node.id));
+    return ids;
+  }
+
+  /**
+   * 重新执行规则：节点规则只检查 dirty 节点，其余规则全量执行
+   */
+  private relint(dirty: Set<string>): LintIssue[] {
+    const { nodes } = this.flow;
+    // 存在阻止规则执行的结构问题时只执行结构规则，缓存需要全量重建
+    const blocked = hasBlockingProblems(validateFlowStructure(this.flow));
+    const activeRules = this.linter.getRulesToRun(blocked);
+    if (blocked) {
+      this.hasTypeErrors = true;
+      this.nodeCache.clear();
+    } else if (this.hasTypeErrors) {
+      this.getNodeIds().forEach((id) => dirty.add(id));
+      this.hasTypeErrors = false;
+    }
+    const registryRevision = this.getRegistryRevision();
+    if (registryRevision !== this.registryRevision) {
+      this.getNodeIds().forEach((id) => dirty.add(id));
+      this.registryRevision = registryRevision;
+    }
+
+    const suppressions = this.linter.createSuppressionTracker(this.flow);
+    const sharedContext = createSharedContext(
+      this.flow,
+      this.options,
+      suppressions
+    );
+    const nodeRules = activeRules.filter(
+      (rule) => rule.meta.scope === "node" && !rule.meta.runLast
+    );
+
+    // 重复 id 的节点无法区分缓存归属，每次都重新检查
+    const nodeIndexes = new Map<string, number>();
+    nodes.forEach((node, index) => {
+      if (!node?.id) {
+        return;
+      }
+      if (nodeIndexes.has(node.id)) {
+        dirty.add(node.id);
+      } else {
+        nodeIndexes.set(node.id, index);
+      }
+    });
+
+    // 稀疏数组只包含 dirty 节点，forEach 会跳过空位且保留原始索引（fix 路径依赖索引）
+    const dirtyNodes: EssentialNode[] = new Array(nodes.length);
+    nodes.forEach((node, index) => {
+      if (node?.id && dirty.has(node.id)) {
+        dirtyNodes[index] = node;
+      }
+    });
+    dirty.forEach((id) => this.nodeCache.delete(id));
+    const dirtyContext = {
+      ...sharedContext,
+      flow: { ...this.flow, nodes: dirtyNodes },
+    };
+    nodeRules.forEach((rule) => {
+      this.linter.runRule(rule, dirtyContext).forEach((issue) => {
+        const nodeId = issue.elementId as string;
+        const cache = this.nodeCache.get(nodeId) || {
+          index: nodeIndexes.get(nodeId) as number,
+          issues: new Map<string, LintIssue[]>(),
+        };
+        this.nodeCache.set(nodeId, cache);
+        const ruleIssues = cache.issues.get(rule.meta.code) || [];
+        cache.issues.set(rule.meta.code, ruleIssues.concat(issue));
+      });
+    });
+
+    // 按 lintFlow 的顺序组装问题：规则顺序优先，节点规则内部按节点顺序
+    this.updateCachedIndexes(nodeIndexes);
+
+    const collectNodeIssues = (rule: LintRule): LintIssue[] => {
+      const result: LintIssue[] = [];
+      nodeIndexes.forEach((_index, nodeId) => {
+        const cached = this.nodeCache.get(nodeId)?.issues.get(rule.meta.code);
+        if (cached) {
+          result.push(...cached);
+        }
+      });
+      return result;
+    };
+
+    const issues: LintIssue[] = [];
+    activeRules
+      .filter((rule) => !rule.meta.runLast)
+      .forEach((rule) =>
+        issues.push(
+          ...(rule.meta.scope === "node"
+            ? collectNodeIssues(rule)
+            : this.linter.runRule(rule, sharedContext))
+        )
+      );
+    const unsuppressed = issues.filter(
+      (issue) => !suppressions.suppress(issue)
+    );
+    activeRules
+      .filter((rule) => rule.meta.runLast)
+      .forEach((rule) =>
+        unsuppressed.push(
+          ...this.linter
+            .runRule(rule, sharedContext)
+            .filter((issue) => !suppressions.suppress(issue))
+        )
+      );
+
+    return assignFingerprints(unsuppressed);
+  }
+
+  /**
+   * 节点位置变化后修正缓存问题中的 fix 路径（/nodes/旧索引/... -> /nodes/新索引/...）
+   */
+  private updateCachedIndexes(nodeIndexes: Map<string, number>): void {
+    this.nodeCache.forEach((cache, nodeId) => {
+      const index = nodeIndexes.get(nodeId);
+      if (index === undefined) {
+        this.nodeCache.delete(nodeId);
+        return;
+      }
+      if (index === cache.index) {
+        return;
+      }
+      const oldPrefix = `/nodes/${cache.index}/`;
+      const newPrefix = `/nodes/${index}/`;
+      cache.issues.forEach((ruleIssues, code) =>
+        cache.issues.set(
+          code,
+          ruleIssues.map((issue) =>
+            issue.fix
+              ? {
+                  ...issue,
+                  fix: {
+                    ...issue.fix,
+                    operations: issue.fix.operations.map((operation) =>
+                      operation.path.startsWith(oldPrefix)
+                        ? {
+                            ...operation,
+                            path:
+                              newPrefix +
+                              operation.path.slice(oldPrefix.length),
+                          }
+                        : operation
+                    ),
+                  },
+                }
+              : issue
+          )
+        )
+      );
+      cache.index = index;
+    });
+  }
+}
@@ -0,0 +1,249 @@
+import { InputSchema, InputSchemaType, NodeDefinition } from "./types/lint";
+import { createNodeRegistry, NodeRegistry } from "./node-registry";
+import {
+  ESSENTIAL_STRUCTURES,
+  EssentialStructureName,
+  FieldSpec,
+} from "./structure";
+
+/**
+ * JSON Schema 文档（draft 2020-12）
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+// 数值类型的输入允许使用数字字符串（与 value-validation 一致）
+const NUMBER_STRING_PATTERN =
+  "^\\s*[-+]?(\\d+\\.?\\d*|\\.\\d+)([eE][-+]?\\d+)?\\s*$";
+const INTEGER_STRING_PATTERN = "^\\s*[-+]?\\d+\\s*$";
+
+/**
+ * 空值和前端连接占位符不受输入 schema 约束（与 isEmptyValue 一致）
+ */
+const EMPTY_INPUT_VALUE_SCHEMA: JsonSchema = {
+  description: "Empty value or a connection placeholder",
+  anyOf: [
+    { type: "null" },
+    { type: "string", pattern: "^\\s*$" },
+    { type: "array", maxItems: 0 },
+    { type: "object", maxProperties: 0 },
+    { enum: ["RECEIVING INPUT", "RECEIVING_INPUT"] },
+  ],
+};
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+
+/**
+ * 字段声明转换为 JSON Schema
+ */
+function fieldToSchema(spec: FieldSpec): JsonSchema {
+  const schema: JsonSchema = {};
+  if (spec.description) {
+    schema.description = spec.description;
+  }
+  if (spec.of) {
+    return spec.type === "array"
+      ? { ...schema, type: "array", items: ref(spec.of) }
+      : { ...schema, ...ref(spec.of) };
+  }
+  if (spec.type) {
+    schema.type = spec.type;
+  }
+  if (spec.enum) {
+    schema.enum = spec.enum;
+  }
+  return schema;
+}
+
+/**
+ * Essential 结构转换为对象 schema
+ */
+function structureToSchema(name: EssentialStructureName): JsonSchema {
+  const fields: Record<string, FieldSpec> = ESSENTIAL_STRUCTURES[name];
+  const properties: Record<string, JsonSchema> = {};
+  Object.keys(fields).forEach((key) => {
+    properties[key] = fieldToSchema(fields[key]);
+  });
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(fields).filter((key) => fields[key].required),
+  };
+}
+
+/**
+ * 输入 schema 中单个类型对应的 JSON Schema 分支
+ */
+function typeToSchemas(
+  type: InputSchemaType,
+  schema: InputSchema
+): JsonSchema[] {
+  const options = schema.enum;
+  const matching = (predicate: (option: unknown) => boolean) =>
+    options && { enum: options.filter(predicate) };
+
+  switch (type) {
+    case "string":
+      return [
+        {
+          type: "string",
+          ...(schema.pattern && { pattern: schema.pattern }),
+          // JSON Schema 的 enum 区分大小写，不区分大小写的 enum 由 linter 检查
+          ...(!schema.caseInsensitive &&
+            matching((option) => typeof option === "string")),
+        },
+      ];
+    case "number":
+    case "integer": {
+      const numbers = options?.filter((option) => typeof option === "number");
+      return [
+        {
+          type,
+          ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+          ...(schema.maximum !== undefined && { maximum: schema.maximum }),
+          ...(numbers && { enum: numbers }),
+        },
+        // 数字字符串无法在 JSON Schema 中检查范围，由 linter 检查
+        {
+          type: "string",
+          pattern:
+            type === "integer" ? INTEGER_STRING_PATTERN : NUMBER_STRING_PATTERN,
+          ...(numbers && { enum: numbers.map(String) }),
+        },
+      ];
+    }
+    case "boolean":
+      return [
+        {
+          type: "boolean",
+          ...matching((option) => typeof option === "boolean"),
+        },
+      ];
+    default:
+      return [{ type }];
+  }
+}
+
+/**
+ * 输入 schema 转换为输入值的 JSON Schema
+ */
+function inputSchemaToValueSchema(schema: InputSchema): JsonSchema {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const branches = types
+    .reduce<JsonSchema[]>(
+      (all, type) => all.concat(typeToSchemas(type, schema)),
+      []
+    )
+    // 枚举值中没有该类型的值时去掉该分支
+    .filter((branch) => !Array.isArray(branch.enum) || branch.enum.length > 0);
+  return {
+    ...(schema.default !== undefined && { default: schema.default }),
+    anyOf: [ref("EmptyInputValue"), ...branches],
+  };
+}
+
+/**
+ * 某类节点的节点 schema：以 type 作为判别字段，输入 id 限定为节点定义中声明的输入
+ */
+function nodeTypeToSchema(definition: NodeDefinition): JsonSchema {
+  const inputIds = [...definition.requiredInputs, ...definition.optionalInputs];
+  const schemas = definition.inputSchemas || {};
+  const hasId = (id: string): JsonSchema => ({
+    properties: { id: { const: id } },
+    required: ["id"],
+  });
+
+  return {
+    description: definition.description,
+    ...ref("EssentialNode"),
+    properties: {
+      type: { const: definition.type },
+      data: {
+        properties: {
+          inputs: {
+            items: {
+              properties: { id: { enum: inputIds } },
+              ...(Object.keys(schemas).length > 0 && {
+                allOf: Object.keys(schemas).map((id) => ({
+                  if: hasId(id),
+                  then: {
+                    properties: {
+                      value: inputSchemaToValueSchema(schemas[id]),
+                    },
+                  },
+                })),
+              }),
+            },
+            ...(definition.requiredInputs.length > 0 && {
+              allOf: definition.requiredInputs.map((id) => ({
+                contains: hasId(id),
+              })),
+            }),
+          },
+          outputs: {
+            items: { properties: { id: { enum: definition.outputs } } },
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * 公共结构的 $defs
+ */
+function createSharedDefs(): Record<string, JsonSchema> {
+  const defs: Record<string, JsonSchema> = {};
+  (Object.keys(ESSENTIAL_STRUCTURES) as EssentialStructureName[]).forEach(
+    (name) => {
+      defs[name] = structureToSchema(name);
+    }
+  );
+  defs.EmptyInputValue = EMPTY_INPUT_VALUE_SCHEMA;
+  return defs;
+}
+
+/**
+ * 单类节点的独立 JSON Schema 文档（可直接用作 LLM 工具调用的参数定义）
+ */
+export function createNodeJsonSchema(definition: NodeDefinition): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: definition.type,
+    ...nodeTypeToSchema(definition),
+    $defs: createSharedDefs(),
+  };
+}
+
+/**
+ * EssentialFlow 的 JSON Schema 文档，nodes 是按 type 判别的各类节点 schema 的联合
+ *
+ * 输入 id 与取值按节点定义严格限定，比 linter 更严格（linter 对未知输入只给出警告）
+ */
+export function createFlowJsonSchema(
+  nodeRegistry: NodeRegistry = createNodeRegistry()
+): JsonSchema {
+  const defs = createSharedDefs();
+  const types = nodeRegistry.getTypes();
+  // 类型有多个版本时使用最新版本
+  types.forEach((type) => {
+    defs[type] = nodeTypeToSchema(nodeRegistry.get(type) as NodeDefinition);
+  });
+
+  const flow = structureToSchema("EssentialFlow");
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: "EssentialFlow",
+    ...flow,
+    properties: {
+      ...(flow.properties as Record<string, JsonSchema>),
+      nodes: {
+        type: "array",
+        items: { oneOf: types.map(ref) },
+      },
+    },
+    $defs: defs,
+  };
+}
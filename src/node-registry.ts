@@ -0,0 +1,260 @@
+import { NodeDefinition } from "./types/lint";
+import { NODE_DEFINITIONS } from "./definitions";
+import { compareVersions, maxSatisfying, parseVersion } from "./semver";
+import { validateVersionSyntax } from "./rules/version-rules";
+
+/**
+ * 节点定义清单（由后端发布，用于在运行时注册新节点类型）
+ */
+export interface NodeManifest {
+  nodes: NodeDefinition[];
+}
+
+/**
+ * 节点定义或清单无效
+ */
+export class NodeDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NodeDefinitionError";
+  }
+}
+
+const CATEGORIES: Array<NodeDefinition["category"]> = [
+  "input",
+  "compute",
+  "trade",
+  "output",
+];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * 检查节点定义的结构，无效时抛出 NodeDefinitionError
+ */
+export function assertValidNodeDefinition(
+  definition: unknown
+): asserts definition is NodeDefinition {
+  if (!isPlainObject(definition)) {
+    throw new NodeDefinitionError("Node definition must be an object");
+  }
+  const { type } = definition;
+  if (typeof type !== "string" || type.trim() === "") {
+    throw new NodeDefinitionError("Node definition must have a non-empty type");
+  }
+  const fail = (message: string): never => {
+    throw new NodeDefinitionError(`Node definition ${type}: ${message}`);
+  };
+
+  if (
+    definition.version !== undefined &&
+    (typeof definition.version !== "string" ||
+      !parseVersion(definition.version))
+  ) {
+    fail("version must be an exact version such as 1.2.0");
+  }
+  if (typeof definition.description !== "string") {
+    fail("description must be a string");
+  }
+  if (!CATEGORIES.includes(definition.category as NodeDefinition["category"])) {
+    fail(`category must be one of ${CATEGORIES.join(", ")}`);
+  }
+  (["requiredInputs", "optionalInputs", "outputs"] as const).forEach((key) => {
+    if (!isStringArray(definition[key])) {
+      fail(`${key} must be an array of strings`);
+    }
+  });
+  (["inputSchemas", "inputMultiplicity"] as const).forEach((key) => {
+    if (definition[key] !== undefined && !isPlainObject(definition[key])) {
+      fail(`${key} must be an object`);
+    }
+  });
+  if (
+    definition.conditionalInputs !== undefined &&
+    !Array.isArray(definition.conditionalInputs)
+  ) {
+    fail("conditionalInputs must be an array");
+  }
+}
+
+/**
+ * 节点定义注册表
+ *
+ * 以节点类型为键保存定义；同一类型可以注册多个版本（version 为精确版本号），
+ * 以及至多一个不带版本的定义（如内置定义），作为没有版本满足节点版本范围时的回退。
+ * register 只添加新的类型或版本，修改已有定义需使用 override
+ */
+export class NodeRegistry {
+  // 同一类型的定义按版本升序排列（不带版本的定义在最前）
+  private definitions = new Map<string, NodeDefinition[]>();
+  private revision = 0; // 每次修改定义后递增，供缓存 lint 结果的调用方判断是否过期
+
+  constructor(definitions: NodeDefinition[] = []) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  /**
+   * 注册新的节点类型或已有类型的新版本
+   */
+  register(definition: NodeDefinition): this {
+    assertValidNodeDefinition(definition);
+    const existing = this.definitions.get(definition.type) || [];
+    if (existing.some((item) => item.version === definition.version)) {
+      throw new NodeDefinitionError(
+        `Node type ${describe(
+          definition
+        )} is already registered; use override() to replace it`
+      );
+    }
+    this.definitions.set(
+      definition.type,
+      existing
+        .concat(definition)
+        .sort((a, b) => compareVersions(a.version || "", b.version || ""))
+    );
+    this.revision++;
+    return this;
+  }
+
+  /**
+   * 替换已注册的节点定义（按类型和版本匹配）
+   */
+  override(definition: NodeDefinition): this {
+    assertValidNodeDefinition(definition);
+    const existing = this.definitions.get(definition.type) || [];
+    const index = existing.findIndex(
+      (item) => item.version === definition.version
+    );
+    if (index === -1) {
+      throw new NodeDefinitionError(
+        `Node type ${describe(
+          definition
+        )} is not registered; use register() to add it`
+      );
+    }
+    existing[index] = definition;
+    this.revision++;
+    return this;
+  }
+
+  /**
+   * 移除节点类型的全部定义，或只移除指定版本
+   */
+  unregister(type: string, version?: string): boolean {
+    const existing = this.definitions.get(type) || [];
+    const remaining =
+      version === undefined
+        ? []
+        : existing.filter((item) => item.version !== version);
+    if (remaining.length === existing.length) {
+      return false;
+    }
+    if (remaining.length > 0) {
+      this.definitions.set(type, remaining);
+    } else {
+      this.definitions.delete(type);
+    }
+    this.revision++;
+    return true;
+  }
+
+  /**
+   * 加载节点定义清单：新类型被注册，清单中出现的已有类型的全部版本被清单中的定义替换
+   *
+   * 清单中任一定义无效时抛出 NodeDefinitionError，注册表保持不变
+   */
+  loadManifest(manifest: unknown): this {
+    if (!isPlainObject(manifest) || !Array.isArray(manifest.nodes)) {
+      throw new NodeDefinitionError(
+        "Node manifest must be an object with a nodes array"
+      );
+    }
+    const loaded = new NodeRegistry(manifest.nodes);
+    loaded.definitions.forEach((definitions, type) =>
+      this.definitions.set(type, definitions)
+    );
+    this.revision++;
+    return this;
+  }
+
+  /**
+   * 获取节点定义
+   *
+   * 返回满足 version 范围的最高版本，未指定版本时返回最新版本；
+   * 范围语法无效时（由 invalid-version-syntax 报告）同样返回最新版本。
+   * 没有版本满足范围时返回不带版本的定义，也没有时返回 undefined
+   */
+  get(type: string, version?: string): NodeDefinition | undefined {
+    const definitions = this.definitions.get(type) || [];
+    const fallback = definitions.find(
+      (definition) => definition.version === undefined
+    );
+    const range =
+      version && validateVersionSyntax(version).isValid ? version : "latest";
+    const resolved = maxSatisfying(this.getVersions(type), range);
+    return (
+      (resolved &&
+        definitions.find((definition) => definition.version === resolved)) ||
+      fallback
+    );
+  }
+
+  /**
+   * 修订号：注册、覆盖、移除定义或加载清单后递增
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * 节点类型是否已注册
+   */
+  has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  /**
+   * 获取节点类型已注册的版本（升序，不含不带版本的定义）
+   */
+  getVersions(type: string): string[] {
+    return (this.definitions.get(type) || [])
+      .map((definition) => definition.version)
+      .filter((version): version is string => version !== undefined);
+  }
+
+  /**
+   * 获取所有已注册的节点类型（按注册顺序）
+   */
+  getTypes(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * 获取所有节点定义（按类型注册顺序，同一类型按版本升序）
+   */
+  getAll(): NodeDefinition[] {
+    const all: NodeDefinition[] = [];
+    this.definitions.forEach((definitions) => all.push(...definitions));
+    return all;
+  }
+}
+
+/**
+ * 描述节点定义（带版本时为 type@version）
+ */
+function describe(definition: NodeDefinition): string {
+  return definition.version
+    ? `${definition.type}@${definition.version}`
+    : definition.type;
+}
+
+/**
+ * 创建包含所有内置节点定义的注册表
+ */
+export function createNodeRegistry(): NodeRegistry {
+  return new NodeRegistry(Object.values(NODE_DEFINITIONS));
+}
@@ -0,0 +1,80 @@
+import { LintIssue, LintResult } from "./types/lint";
+import { countIssues } from "./formatters/utils";
+
+/**
+ * 53 位字符串哈希（cyrb53），不依赖 Node 的 crypto，浏览器中同样可用
+ */
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, "0");
+}
+
+/**
+ * 计算问题指纹（由规则 code、元素和字段决定，与消息文本和严重级别无关）
+ */
+export function fingerprintIssue(issue: LintIssue): string {
+  return hashString(
+    [
+      issue.code,
+      issue.elementType || "",
+      issue.elementId || "",
+      issue.fieldType || "",
+      issue.fieldId || "",
+    ].join("\u0000")
+  );
+}
+
+/**
+ * 为问题列表填充指纹，相同位置的重复问题按出现顺序追加序号以保持唯一
+ */
+export function assignFingerprints(issues: LintIssue[]): LintIssue[] {
+  const occurrences = new Map<string, number>();
+  return issues.map((issue) => {
+    const base = fingerprintIssue(issue);
+    const count = occurrences.get(base) || 0;
+    occurrences.set(base, count + 1);
+    return { ...issue, fingerprint: count === 0 ? base : `${base}-${count}` };
+  });
+}
+
+/**
+ * 由问题列表和规则耗时构建 LintResult
+ */
+export function buildLintResult(
+  issues: LintIssue[],
+  ruleTimings: Record<string, number>,
+  elapsedMs: number
+): LintResult {
+  const fingerprinted = assignFingerprints(issues);
+  const ruleCounts: Record<string, number> = {};
+  const nodeIssues: Record<string, LintIssue[]> = {};
+
+  fingerprinted.forEach((issue) => {
+    ruleCounts[issue.code] = (ruleCounts[issue.code] || 0) + 1;
+    if (issue.elementId && issue.elementType !== "edge") {
+      (nodeIssues[issue.elementId] = nodeIssues[issue.elementId] || []).push(
+        issue
+      );
+    }
+  });
+
+  return {
+    issues: fingerprinted,
+    ...countIssues(fingerprinted),
+    ruleCounts,
+    nodeIssues,
+    ruleTimings,
+    elapsedMs,
+  };
+}
@@ -0,0 +1,128 @@
+import { EssentialEdge, EssentialNode } from "../types/weather";
+import {
+  FlowData,
+  LintOptions,
+  LintReport,
+  LintRuleContext,
+} from "../types/lint";
+import { createNodeRegistry } from "../node-registry";
+import { SuppressionTracker } from "../suppressions";
+import { stripHandleSuffix } from "./utils";
+
+/**
+ * 规则上下文中与具体规则无关的共享部分
+ */
+export type SharedRuleContext = Omit<LintRuleContext, "report">;
+
+/**
+ * 构建共享的规则上下文（每次 lint 只构建一次）
+ */
+export function createSharedContext(
+  data: FlowData,
+  options: LintOptions,
+  suppressions: SuppressionTracker = new SuppressionTracker(data)
+): SharedRuleContext {
+  const edges = data.edges || [];
+  const nodeRegistry = options.nodeRegistry || createNodeRegistry();
+  const nodeMap = new Map<string, EssentialNode>();
+  data.nodes.forEach((node) => {
+    if (node?.id && !nodeMap.has(node.id)) {
+      nodeMap.set(node.id, node);
+    }
+  });
+
+  // 按目标节点索引边，避免每个输入都扫描全部边
+  const edgesByTarget = new Map<string, EssentialEdge[]>();
+  edges.forEach((edge) => {
+    if (edge?.target && edge.targetHandle) {
+      const targetEdges = edgesByTarget.get(edge.target);
+      if (targetEdges) {
+        targetEdges.push(edge);
+      } else {
+        edgesByTarget.set(edge.target, [edge]);
+      }
+    }
+  });
+
+  /**
+   * 获取连接到节点某个输入的边（大小写不敏感匹配）
+   * targetHandle 格式可能是 "inputId"、"inputId-handle" 或 "nodeId__inputId"
+   */
+  const getInputEdges = (nodeId: string, inputId: string): EssentialEdge[] => {
+    const inputIdLower = inputId.toLowerCase();
+    return (edgesByTarget.get(nodeId) || []).filter((edge) => {
+      const handleLower = stripHandleSuffix(edge.targetHandle).toLowerCase();
+      if (handleLower === inputIdLower) {
+        return true;
+      }
+
+      const parts = handleLower.split("__");
+      return parts.length > 1 && parts[1] === inputIdLower;
+    });
+  };
+
+  return {
+    flow: data,
+    options,
+    nodeMap,
+    getNodeDefinition: (nodeType, version) =>
+      nodeRegistry.get(nodeType, version),
+    getNodeVersions: (nodeType) => nodeRegistry.getVersions(nodeType),
+
+    getInputEdges,
+
+    /**
+     * 检查输入是否被连接（大小写不敏感匹配）
+     */
+    isInputConnected: (nodeId, inputId) =>
+      getInputEdges(nodeId, inputId).length > 0,
+
+    /**
+     * 获取节点有效的输入句柄列表，包含动态参数
+     */
+    getValidInputHandles: (node) => {
+      const inputs = node.data?.inputs || [];
+      const handleIds = inputs.map((input) => input.id);
+
+      // ai_model_node 支持通过 parameters 定义动态句柄
+      if (node.type === "ai_model_node") {
+        const parametersInput = inputs.find(
+          (input) => input.id === "parameters"
+        );
+        const parameterValue = parametersInput?.value;
+
+        if (Array.isArray(parameterValue)) {
+          parameterValue.forEach((param) => {
+            const paramName =
+              typeof param === "string"
+                ? param
+                : typeof param?.name === "string"
+                ? param.name
+                : undefined;
+
+            if (paramName) {
+              const normalized = paramName.trim();
+              if (normalized && !handleIds.includes(normalized)) {
+                handleIds.push(normalized);
+              }
+            }
+          });
+        }
+      }
+
+      return handleIds;
+    },
+
+    getUnusedSuppressions: () => suppressions.getUnused(),
+  };
+}
+
+/**
+ * 为单条规则绑定 report 函数
+ */
+export function bindRuleContext(
+  shared: SharedRuleContext,
+  report: (issue: LintReport) => void
+): LintRuleContext {
+  return { ...shared, report };
+}
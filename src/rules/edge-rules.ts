@@ -0,0 +1,285 @@
+import { EssentialEdge } from "../types/weather";
+import { LintRule, LintRuleContext } from "../types/lint";
+import {
+  isDataTypeCoercible,
+  isDataTypeCompatible,
+} from "../type-compatibility";
+import { toPointer } from "../fixes";
+import { stripHandleSuffix } from "./utils";
+
+type EdgeField = "source" | "sourceHandle" | "target" | "targetHandle";
+
+/**
+ * 遍历所有边
+ */
+function forEachEdge(
+  context: LintRuleContext,
+  callback: (edge: EssentialEdge, index: number) => void
+): void {
+  (context.flow.edges || []).forEach(callback);
+}
+
+/**
+ * 为无效句柄查找可修复的规范句柄
+ *
+ * 支持大小写不一致、多余的 "nodeId__" 前缀和重复的 -handle 后缀，
+ * 修复后保留原句柄是否带 -handle 后缀的写法
+ */
+function findCanonicalHandle(
+  handle: string,
+  validHandles: string[]
+): string | undefined {
+  const hasSuffix = handle.endsWith("-handle");
+  let candidate = handle;
+  while (candidate.endsWith("-handle")) {
+    candidate = stripHandleSuffix(candidate);
+  }
+  const parts = candidate.split("__");
+  const candidates = [candidate, parts[parts.length - 1]].map((item) =>
+    item.toLowerCase()
+  );
+
+  const match = validHandles.find(
+    (valid) => valid && candidates.includes(valid.toLowerCase())
+  );
+  if (!match) {
+    return undefined;
+  }
+  const canonical = hasSuffix ? `${match}-handle` : match;
+  return canonical !== handle ? canonical : undefined;
+}
+
+/**
+ * 创建「边缺少必需字段」规则
+ */
+function createMissingEdgeFieldRule(field: EdgeField): LintRule {
+  return {
+    meta: {
+      code: `missing-edge-${field.toLowerCase()}`,
+      description: `Every edge must have a ${field}`,
+      severity: "error",
+      modes: ["flow"],
+    },
+    check(context) {
+      forEachEdge(context, (edge, index) => {
+        if (!edge[field]) {
+          context.report({
+            message: `Edge at index ${index} is missing required field: ${field}`,
+            elementId: edge.id,
+            elementType: "edge",
+          });
+        }
+      });
+    },
+  };
+}
+
+export const missingEdgeSource = createMissingEdgeFieldRule("source");
+export const missingEdgeSourceHandle =
+  createMissingEdgeFieldRule("sourceHandle");
+export const missingEdgeTarget = createMissingEdgeFieldRule("target");
+export const missingEdgeTargetHandle =
+  createMissingEdgeFieldRule("targetHandle");
+
+/**
+ * 边引用了不存在的源节点
+ */
+export const invalidEdgeSourceNode: LintRule = {
+  meta: {
+    code: "invalid-edge-source-node",
+    description: "Edge source must reference an existing node",
+    severity: "error",
+    modes: ["flow"],
+  },
+  check(context) {
+    forEachEdge(context, (edge) => {
+      if (edge.source && !context.nodeMap.has(edge.source)) {
+        context.report({
+          message: `Edge references non-existent source node: ${edge.source}`,
+          elementId: edge.id,
+          elementType: "edge",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 边引用了不存在的目标节点
+ */
+export const invalidEdgeTargetNode: LintRule = {
+  meta: {
+    code: "invalid-edge-target-node",
+    description: "Edge target must reference an existing node",
+    severity: "error",
+    modes: ["flow"],
+  },
+  check(context) {
+    forEachEdge(context, (edge) => {
+      if (edge.target && !context.nodeMap.has(edge.target)) {
+        context.report({
+          message: `Edge references non-existent target node: ${edge.target}`,
+          elementId: edge.id,
+          elementType: "edge",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 边引用了源节点上不存在的输出句柄
+ */
+export const invalidEdgeSourceHandle: LintRule = {
+  meta: {
+    code: "invalid-edge-source-handle",
+    description:
+      "Edge sourceHandle must reference an output of the source node",
+    severity: "error",
+    modes: ["flow"],
+  },
+  check(context) {
+    forEachEdge(context, (edge, index) => {
+      const sourceNode = edge.source && context.nodeMap.get(edge.source);
+      if (!sourceNode || !edge.sourceHandle) {
+        return;
+      }
+
+      const sourceOutputs = (sourceNode.data?.outputs || []).map(
+        (output) => output.id
+      );
+      if (!sourceOutputs.includes(stripHandleSuffix(edge.sourceHandle))) {
+        const canonical = findCanonicalHandle(edge.sourceHandle, sourceOutputs);
+        context.report({
+          message: `Edge references non-existent output handle ${edge.sourceHandle} on node ${edge.source}`,
+          elementId: edge.id,
+          elementType: "edge",
+          ...(canonical && {
+            fix: {
+              description: `Rename sourceHandle to ${canonical}`,
+              operations: [
+                {
+                  op: "replace",
+                  path: toPointer("edges", index, "sourceHandle"),
+                  value: canonical,
+                },
+              ],
+            },
+          }),
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 边引用了目标节点上不存在的输入句柄
+ */
+export const invalidEdgeTargetHandle: LintRule = {
+  meta: {
+    code: "invalid-edge-target-handle",
+    description: "Edge targetHandle must reference an input of the target node",
+    severity: "error",
+    modes: ["flow"],
+  },
+  check(context) {
+    forEachEdge(context, (edge, index) => {
+      const targetNode = edge.target && context.nodeMap.get(edge.target);
+      if (!targetNode || !edge.targetHandle) {
+        return;
+      }
+
+      const targetInputs = context.getValidInputHandles(targetNode);
+      if (!targetInputs.includes(stripHandleSuffix(edge.targetHandle))) {
+        const canonical = findCanonicalHandle(edge.targetHandle, targetInputs);
+        context.report({
+          message: `Edge references non-existent input handle ${edge.targetHandle} on node ${edge.target}`,
+          elementId: edge.id,
+          elementType: "edge",
+          ...(canonical && {
+            fix: {
+              description: `Rename targetHandle to ${canonical}`,
+              operations: [
+                {
+                  op: "replace",
+                  path: toPointer("edges", index, "targetHandle"),
+                  value: canonical,
+                },
+              ],
+            },
+          }),
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 边两端的数据类型不兼容（输出类型无法作为目标输入类型使用）
+ */
+export const incompatibleEdgeType: LintRule = {
+  meta: {
+    code: "incompatible-edge-type",
+    description:
+      "The output type of an edge source must be compatible with the input type of its target",
+    severity: "error",
+    modes: ["flow"],
+  },
+  check(context) {
+    forEachEdge(context, (edge) => {
+      const sourceNode = edge.source && context.nodeMap.get(edge.source);
+      const targetNode = edge.target && context.nodeMap.get(edge.target);
+      if (
+        !sourceNode ||
+        !targetNode ||
+        !edge.sourceHandle ||
+        !edge.targetHandle
+      ) {
+        return;
+      }
+
+      const outputId = stripHandleSuffix(edge.sourceHandle);
+      const inputId = stripHandleSuffix(edge.targetHandle).toLowerCase();
+      const output = (sourceNode.data?.outputs || []).find(
+        (item) => item.id === outputId
+      );
+      const input = (targetNode.data?.inputs || []).find(
+        (item) => item.id?.toLowerCase() === inputId
+      );
+      // 句柄不存在由 invalid-edge-*-handle 规则报告
+      if (!output || !input) {
+        return;
+      }
+
+      if (isDataTypeCompatible(output.type, input.type)) {
+        return;
+      }
+      if (isDataTypeCoercible(output.type, input.type)) {
+        context.report({
+          message: `Edge connects ${output.type} output ${edge.source}.${output.id} to ${input.type} input ${edge.target}.${input.id}; the value must be convertible at runtime`,
+          elementId: edge.id,
+          elementType: "edge",
+          severity: "warning",
+        });
+      } else {
+        context.report({
+          message: `Edge connects ${output.type} output ${edge.source}.${output.id} to incompatible ${input.type} input ${edge.target}.${input.id}`,
+          elementId: edge.id,
+          elementType: "edge",
+        });
+      }
+    });
+  },
+};
+
+export const edgeRules: LintRule[] = [
+  missingEdgeSource,
+  missingEdgeSourceHandle,
+  missingEdgeTarget,
+  missingEdgeTargetHandle,
+  invalidEdgeSourceNode,
+  invalidEdgeTargetNode,
+  invalidEdgeSourceHandle,
+  invalidEdgeTargetHandle,
+  incompatibleEdgeType,
+];
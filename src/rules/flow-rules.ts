@@ -0,0 +1,261 @@
+import { EssentialNode } from "../types/weather";
+import { LintRule, LintRuleContext, NodeDefinition } from "../types/lint";
+import {
+  buildOutgoingEdges,
+  findReachable,
+  findShortestCycle,
+  findStronglyConnectedComponents,
+  isFromDeletedOutput,
+} from "../graph";
+import { TRADE_NODE_TYPES } from "./trade-rules";
+import { getNodeVersion } from "./utils";
+
+/**
+ * 节点的所有输出是否都已删除（没有输出的节点不算）
+ */
+function hasOnlyDeletedOutputs(node: EssentialNode): boolean {
+  const outputs = node.data?.outputs || [];
+  return (
+    outputs.length > 0 && outputs.every((output) => output?.isDeleted === true)
+  );
+}
+
+/**
+ * 构建数据流图：只包含两端节点存在、且源输出未被删除的边
+ */
+function buildDataFlowGraph(context: LintRuleContext): {
+  forward: Map<string, string[]>;
+  backward: Map<string, string[]>;
+  connected: Set<string>;
+} {
+  const forward = new Map<string, string[]>();
+  const backward = new Map<string, string[]>();
+  const connected = new Set<string>();
+  const link = (map: Map<string, string[]>, from: string, to: string) => {
+    const targets = map.get(from);
+    if (targets) {
+      targets.push(to);
+    } else {
+      map.set(from, [to]);
+    }
+  };
+
+  context.flow.edges.forEach((edge) => {
+    const source = edge && context.nodeMap.get(edge.source);
+    if (!source || !context.nodeMap.has(edge.target)) {
+      return;
+    }
+    connected.add(edge.source);
+    connected.add(edge.target);
+    if (isFromDeletedOutput(edge, source)) {
+      return;
+    }
+    link(forward, edge.source, edge.target);
+    link(backward, edge.target, edge.source);
+  });
+
+  return { forward, backward, connected };
+}
+
+/**
+ * 按节点定义的 category 筛选节点 id
+ */
+function getNodeIdsByCategory(
+  context: LintRuleContext,
+  categories: Array<NodeDefinition["category"]>
+): string[] {
+  const ids: string[] = [];
+  context.nodeMap.forEach((node, id) => {
+    const definition = context.getNodeDefinition(
+      node.type,
+      getNodeVersion(node)
+    );
+    if (definition && categories.includes(definition.category)) {
+      ids.push(id);
+    }
+  });
+  return ids;
+}
+
+/**
+ * 孤立节点（没有任何连接的节点）
+ */
+export const isolatedNode: LintRule = {
+  meta: {
+    code: "isolated-node",
+    description: "Nodes should be connected to at least one other node",
+    severity: "warning",
+    modes: ["flow"],
+  },
+  check(context) {
+    const { nodes, edges } = context.flow;
+    const connectedNodes = new Set<string>();
+    edges.forEach((edge) => {
+      connectedNodes.add(edge.source);
+      connectedNodes.add(edge.target);
+    });
+
+    nodes.forEach((node) => {
+      if (!connectedNodes.has(node.id) && nodes.length > 1) {
+        context.report({
+          message: `Node ${node.id} is isolated (not connected to any other nodes)`,
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 循环依赖：每个强连通分量报告一个经过其首个节点的最短环
+ */
+export const circularDependency: LintRule = {
+  meta: {
+    code: "circular-dependency",
+    description: "Flows must not contain circular dependencies",
+    severity: "error",
+    modes: ["flow"],
+  },
+  check(context) {
+    const nodeIds = Array.from(context.nodeMap.keys());
+    const outgoing = buildOutgoingEdges(nodeIds, context.flow.edges);
+
+    findStronglyConnectedComponents(nodeIds, outgoing).forEach((component) => {
+      const start = component[0];
+      const cycle = findShortestCycle(start, new Set(component), outgoing);
+      // 单节点分量只有在存在自环时才构成循环
+      if (!cycle) {
+        return;
+      }
+
+      const cycleNodeIds = [start, ...cycle.map((edge) => edge.target)];
+      const others = component.length - (cycleNodeIds.length - 1);
+      context.report({
+        message: `Circular dependency detected: ${cycleNodeIds.join(" -> ")}${
+          others > 0
+            ? ` (${others} more ${
+                others === 1 ? "node is" : "nodes are"
+              } part of the same cycle group)`
+            : ""
+        }`,
+        elementId: start,
+        elementType: "node",
+        related: {
+          nodeIds: cycleNodeIds.slice(0, -1),
+          edgeIds: cycle.map((edge) => edge.id).filter(Boolean),
+        },
+      });
+    });
+  },
+};
+
+/**
+ * 计算节点的结果没有流向任何 output 或 trade 节点（孤立节点由 isolated-node 报告）
+ */
+export const deadEndNode: LintRule = {
+  meta: {
+    code: "dead-end-node",
+    description: "Compute node results should reach an output or trade node",
+    severity: "warning",
+    modes: ["flow"],
+  },
+  check(context) {
+    const { backward, connected } = buildDataFlowGraph(context);
+    const reachesSink = findReachable(
+      getNodeIdsByCategory(context, ["output", "trade"]),
+      backward
+    );
+    getNodeIdsByCategory(context, ["compute"]).forEach((id) => {
+      // 输出全部删除的节点由 dead-branch 报告
+      if (
+        connected.has(id) &&
+        !reachesSink.has(id) &&
+        !hasOnlyDeletedOutputs(context.nodeMap.get(id) as EssentialNode)
+      ) {
+        context.report({
+          message: `Results of node ${id} never reach an output or trade node`,
+          elementId: id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 交易或输出节点没有任何 input 节点提供数据（孤立节点由 isolated-node 报告）
+ *
+ * vault_node 等凭证类 trade 节点本身就是数据来源，不做检查
+ */
+export const unfedNode: LintRule = {
+  meta: {
+    code: "unfed-node",
+    description: "Trade and output nodes should be fed by an input node",
+    severity: "warning",
+    modes: ["flow"],
+  },
+  check(context) {
+    const { forward, connected } = buildDataFlowGraph(context);
+    const fedByInput = findReachable(
+      getNodeIdsByCategory(context, ["input"]),
+      forward
+    );
+    context.nodeMap.forEach((node, id) => {
+      const definition = context.getNodeDefinition(
+        node.type,
+        getNodeVersion(node)
+      );
+      const isSink =
+        definition?.category === "output" ||
+        TRADE_NODE_TYPES.includes(node.type);
+      if (isSink && connected.has(id) && !fedByInput.has(id)) {
+        context.report({
+          message: `Node ${id} is not fed by any input node`,
+          elementId: id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 死分支：非交易、非输出节点的所有输出都被删除，结果无法被使用
+ */
+export const deadBranch: LintRule = {
+  meta: {
+    code: "dead-branch",
+    description: "Nodes whose outputs are all deleted produce no usable result",
+    severity: "warning",
+    modes: ["flow"],
+  },
+  check(context) {
+    context.nodeMap.forEach((node, id) => {
+      const definition = context.getNodeDefinition(
+        node.type,
+        getNodeVersion(node)
+      );
+      if (
+        definition &&
+        (definition.category === "input" ||
+          definition.category === "compute") &&
+        hasOnlyDeletedOutputs(node)
+      ) {
+        context.report({
+          message: `All outputs of node ${id} are deleted, so its results are discarded`,
+          elementId: id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+export const flowRules: LintRule[] = [
+  isolatedNode,
+  circularDependency,
+  deadEndNode,
+  unfedNode,
+  deadBranch,
+];
@@ -0,0 +1,44 @@
+/**
+ * Rules barrel file - aggregates the built-in lint rules
+ * 规则桶文件 - 聚合所有内置 lint 规则
+ */
+
+import { LintRule } from "../types/lint";
+import { structureRules } from "./structure-rules";
+import { nodeRules } from "./node-rules";
+import { ioRules } from "./io-rules";
+import { edgeRules } from "./edge-rules";
+import { flowRules } from "./flow-rules";
+import { versionRules } from "./version-rules";
+import { valueRules } from "./value-rules";
+import { tradeSafetyRules } from "./trade-rules";
+import { secretRules } from "./secret-rules";
+import { suppressionRules } from "./suppression-rules";
+
+export * from "./registry";
+export { structureRules } from "./structure-rules";
+export { nodeRules } from "./node-rules";
+export { ioRules } from "./io-rules";
+export { edgeRules } from "./edge-rules";
+export { flowRules } from "./flow-rules";
+export { versionRules } from "./version-rules";
+export { valueRules } from "./value-rules";
+export { tradeSafetyRules, DEFAULT_MAX_SLIPPAGE } from "./trade-rules";
+export { secretRules } from "./secret-rules";
+export { suppressionRules } from "./suppression-rules";
+
+/**
+ * 所有内置规则（按执行顺序）
+ */
+export const BUILTIN_RULES: LintRule[] = [
+  ...structureRules,
+  ...nodeRules,
+  ...ioRules,
+  ...valueRules,
+  ...versionRules,
+  ...edgeRules,
+  ...flowRules,
+  ...tradeSafetyRules,
+  ...secretRules,
+  ...suppressionRules,
+];
@@ -0,0 +1,450 @@
+import { EssentialNode } from "../types/weather";
+import { ConditionalInputRule, LintRule, LintRuleContext } from "../types/lint";
+import { toPointer } from "../fixes";
+import {
+  forEachDefinedNode,
+  getInputMultiplicity,
+  isEmptyValue,
+  isPlaceholderValue,
+} from "./utils";
+
+/**
+ * 构建大小写不敏感的输入 Map
+ */
+function getInputsMap(node: EssentialNode) {
+  return new Map(
+    (node.data?.inputs || []).map((input) => [input.id?.toLowerCase(), input])
+  );
+}
+
+/**
+ * 缺少必需输入
+ */
+export const missingRequiredInput: LintRule = {
+  meta: {
+    code: "missing-required-input",
+    description: "Nodes must declare every required input of their type",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachDefinedNode(context, (node, definition) => {
+      const nodeInputsMap = getInputsMap(node);
+      definition.requiredInputs.forEach((requiredInput) => {
+        if (!nodeInputsMap.get(requiredInput.toLowerCase())) {
+          context.report({
+            message: `Missing required input: ${requiredInput}`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: requiredInput,
+            fieldType: "input",
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 必需输入既没有值也没有连线
+ */
+export const requiredInputEmpty: LintRule = {
+  meta: {
+    code: "required-input-empty",
+    description: "Required inputs must have a value or an incoming connection",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachDefinedNode(context, (node, definition) => {
+      const nodeInputsMap = getInputsMap(node);
+      definition.requiredInputs.forEach((requiredInput) => {
+        const input = nodeInputsMap.get(requiredInput.toLowerCase());
+        if (!input) {
+          return;
+        }
+
+        // 必要字段只要被连接或有值（包括空字符串）就OK
+        const isConnected = context.isInputConnected(node.id, requiredInput);
+        const hasValue = input.value !== undefined && input.value !== null;
+
+        if (!hasValue && !isConnected) {
+          context.report({
+            message: `Required input "${requiredInput}" has no value and is not connected`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: requiredInput,
+            fieldType: "input",
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 输入缺少 id
+ */
+export const missingInputId: LintRule = {
+  meta: {
+    code: "missing-input-id",
+    description: "Every node input must have an id",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachDefinedNode(context, (node) => {
+      (node.data?.inputs || []).forEach((input, index) => {
+        if (!input.id) {
+          context.report({
+            message: `Node ${node.id} input at index ${index} is missing id`,
+            elementId: node.id,
+            elementType: "node",
+            fieldType: "input",
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 节点定义中不存在的输入（大小写不敏感匹配）
+ */
+export const unknownInput: LintRule = {
+  meta: {
+    code: "unknown-input",
+    description: "Node inputs should be declared by the node definition",
+    severity: "warning",
+    scope: "node",
+  },
+  check(context) {
+    forEachDefinedNode(context, (node, definition) => {
+      const allValidInputs = [
+        ...definition.requiredInputs,
+        ...definition.optionalInputs,
+      ].map((validId) => validId.toLowerCase());
+
+      (node.data?.inputs || []).forEach((input) => {
+        if (input.id && !allValidInputs.includes(input.id.toLowerCase())) {
+          context.report({
+            message: `Node ${node.id} has unknown input: ${input.id}`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: input.id,
+            fieldType: "input",
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 输出缺少 id
+ */
+export const missingOutputId: LintRule = {
+  meta: {
+    code: "missing-output-id",
+    description: "Every node output must have an id",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachDefinedNode(context, (node) => {
+      (node.data?.outputs || []).forEach((output, index) => {
+        if (!output.id) {
+          context.report({
+            message: `Node ${node.id} output at index ${index} is missing id`,
+            elementId: node.id,
+            elementType: "node",
+            fieldType: "output",
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 输出的 isDeleted 不是布尔值（isDeleted 是可选字段）
+ */
+export const invalidOutputIsDeleted: LintRule = {
+  meta: {
+    code: "invalid-output-isdeleted",
+    description: "Output isDeleted must be a boolean when present",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachDefinedNode(context, (node) => {
+      (node.data?.outputs || []).forEach((output) => {
+        if (
+          output.isDeleted !== undefined &&
+          typeof output.isDeleted !== "boolean"
+        ) {
+          context.report({
+            message: `Node ${node.id} output ${output.id} must have boolean isDeleted field`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: output.id,
+            fieldType: "output",
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 节点定义中不存在的输出
+ */
+export const unknownOutput: LintRule = {
+  meta: {
+    code: "unknown-output",
+    description: "Node outputs should be declared by the node definition",
+    severity: "warning",
+    scope: "node",
+  },
+  check(context) {
+    forEachDefinedNode(context, (node, definition, index) => {
+      (node.data?.outputs || []).forEach((output, outputIndex) => {
+        if (output.id && !definition.outputs.includes(output.id)) {
+          context.report({
+            message: `Node ${node.id} has unknown output: ${output.id}`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: output.id,
+            fieldType: "output",
+            fix: {
+              description: `Remove stale output ${output.id}`,
+              operations: [
+                {
+                  op: "remove",
+                  path: toPointer(
+                    "nodes",
+                    index,
+                    "data",
+                    "outputs",
+                    outputIndex
+                  ),
+                },
+              ],
+            },
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 遍历节点上所有条件满足的条件输入约束
+ *
+ * 条件输入被连线时（值在运行时才确定）不视为满足条件
+ */
+function forEachActiveCondition(
+  context: LintRuleContext,
+  callback: (
+    node: EssentialNode,
+    condition: ConditionalInputRule,
+    inputsMap: ReturnType<typeof getInputsMap>
+  ) => void
+): void {
+  forEachDefinedNode(context, (node, definition) => {
+    if (!definition.conditionalInputs) {
+      return;
+    }
+    const inputsMap = getInputsMap(node);
+    definition.conditionalInputs.forEach((condition) => {
+      const { input: inputId, equals } = condition.when;
+      const input = inputsMap.get(inputId.toLowerCase());
+      if (!input || context.isInputConnected(node.id, inputId)) {
+        return;
+      }
+      const expected = Array.isArray(equals) ? equals : [equals];
+      if (expected.some((value) => String(value) === String(input.value))) {
+        callback(node, condition, inputsMap);
+      }
+    });
+  });
+}
+
+/**
+ * 描述触发条件，如 operation is "search"
+ */
+function describeCondition(condition: ConditionalInputRule): string {
+  const { input, equals } = condition.when;
+  return Array.isArray(equals)
+    ? `${input} is one of ${equals.map((v) => `"${v}"`).join(", ")}`
+    : `${input} is "${equals}"`;
+}
+
+/**
+ * 条件必需的输入缺失（无值且未连线）
+ */
+export const missingConditionalInput: LintRule = {
+  meta: {
+    code: "missing-conditional-input",
+    description:
+      "Inputs required by the current value of another input must be provided",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachActiveCondition(context, (node, condition, inputsMap) => {
+      (condition.require || []).forEach((requiredInput) => {
+        const input = inputsMap.get(requiredInput.toLowerCase());
+        const hasValue = input && !isEmptyValue(input.value);
+        if (!hasValue && !context.isInputConnected(node.id, requiredInput)) {
+          context.report({
+            message: `Input "${requiredInput}" is required when ${describeCondition(
+              condition
+            )}`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: requiredInput,
+            fieldType: "input",
+            severity: condition.severity,
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 条件禁止的输入有值或被连线
+ */
+export const forbiddenConditionalInput: LintRule = {
+  meta: {
+    code: "forbidden-conditional-input",
+    description:
+      "Inputs forbidden by the current value of another input must be left empty",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachActiveCondition(context, (node, condition, inputsMap) => {
+      (condition.forbid || []).forEach((forbiddenInput) => {
+        const input = inputsMap.get(forbiddenInput.toLowerCase());
+        const hasValue = input && !isEmptyValue(input.value);
+        if (hasValue || context.isInputConnected(node.id, forbiddenInput)) {
+          context.report({
+            message: `Input "${forbiddenInput}" must be empty when ${describeCondition(
+              condition
+            )}`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: forbiddenInput,
+            fieldType: "input",
+            severity: condition.severity,
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 只接受单条连线的输入连接了多条边
+ */
+export const tooManyInputConnections: LintRule = {
+  meta: {
+    code: "too-many-input-connections",
+    description: "Single-valued inputs must not be fed by more than one edge",
+    severity: "error",
+    scope: "node",
+    modes: ["flow"],
+  },
+  check(context) {
+    forEachDefinedNode(context, (node, definition) => {
+      (node.data?.inputs || []).forEach((input) => {
+        if (
+          !input?.id ||
+          getInputMultiplicity(definition, input.id) !== "single"
+        ) {
+          return;
+        }
+        const edges = context.getInputEdges(node.id, input.id);
+        if (edges.length > 1) {
+          context.report({
+            message: `Input "${
+              input.id
+            }" accepts a single connection but is fed by ${
+              edges.length
+            } edges (from ${edges.map((edge) => edge.source).join(", ")})`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: input.id,
+            fieldType: "input",
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 输入同时设置了值并被连线（运行时以连线为准，设置的值会被忽略）
+ */
+export const inputValueConnectionConflict: LintRule = {
+  meta: {
+    code: "input-value-connection-conflict",
+    description: "Connected inputs should not also hold a literal value",
+    severity: "warning",
+    scope: "node",
+    modes: ["flow"],
+  },
+  check(context) {
+    forEachDefinedNode(context, (node, _definition, index) => {
+      (node.data?.inputs || []).forEach((input, inputIndex) => {
+        if (
+          !input?.id ||
+          isEmptyValue(input.value) ||
+          isPlaceholderValue(input.value) ||
+          !context.isInputConnected(node.id, input.id)
+        ) {
+          return;
+        }
+        context.report({
+          message: `Input "${input.id}" has a value but is also connected; the connected value takes precedence`,
+          elementId: node.id,
+          elementType: "node",
+          fieldId: input.id,
+          fieldType: "input",
+          fix: {
+            description: `Clear the value of connected input ${input.id}`,
+            operations: [
+              {
+                op: "remove",
+                path: toPointer(
+                  "nodes",
+                  index,
+                  "data",
+                  "inputs",
+                  inputIndex,
+                  "value"
+                ),
+              },
+            ],
+          },
+        });
+      });
+    });
+  },
+};
+
+export const ioRules: LintRule[] = [
+  missingRequiredInput,
+  requiredInputEmpty,
+  missingConditionalInput,
+  forbiddenConditionalInput,
+  tooManyInputConnections,
+  inputValueConnectionConflict,
+  missingInputId,
+  unknownInput,
+  missingOutputId,
+  invalidOutputIsDeleted,
+  unknownOutput,
+];
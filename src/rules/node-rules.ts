@@ -0,0 +1,205 @@
+import { LintRule } from "../types/lint";
+import { toPointer } from "../fixes";
+import { findOverlappingPairs, getNodeRect, Rect } from "../spatial";
+import { forEachNode } from "./utils";
+
+// 自动修复重叠时节点之间保留的间距
+const OVERLAP_NUDGE_GAP = 20;
+
+/**
+ * 节点缺少 id
+ */
+export const missingNodeId: LintRule = {
+  meta: {
+    code: "missing-node-id",
+    description: "Every node must have an id",
+    severity: "error",
+  },
+  check(context) {
+    context.flow.nodes.forEach((node, index) => {
+      if (!node?.id) {
+        context.report({
+          message: `Node at index ${index} is missing required field: id`,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 节点 id 重复
+ */
+export const duplicateNodeId: LintRule = {
+  meta: {
+    code: "duplicate-node-id",
+    description: "Node ids must be unique within a flow",
+    severity: "error",
+  },
+  check(context) {
+    const nodeIds = new Set<string>();
+    forEachNode(context, (node) => {
+      if (nodeIds.has(node.id)) {
+        context.report({
+          message: `Duplicate node ID: ${node.id}`,
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+      nodeIds.add(node.id);
+    });
+  },
+};
+
+/**
+ * 节点缺少 type
+ */
+export const missingNodeType: LintRule = {
+  meta: {
+    code: "missing-node-type",
+    description: "Every node must have a type",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      if (!node.type) {
+        context.report({
+          message: "Node is missing required field: type",
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 未知的节点类型
+ */
+export const invalidNodeType: LintRule = {
+  meta: {
+    code: "invalid-node-type",
+    description: "Node type must be one of the supported node types",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      if (node.type && !context.getNodeDefinition(node.type)) {
+        context.report({
+          message: `Unknown node type: ${node.type}`,
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 节点缺少 position
+ */
+export const missingNodePosition: LintRule = {
+  meta: {
+    code: "missing-node-position",
+    description: "Every node must have a position",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      if (!node.position) {
+        context.report({
+          message: "Node is missing required field: position",
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 节点坐标不是数字
+ */
+export const invalidNodePosition: LintRule = {
+  meta: {
+    code: "invalid-node-position",
+    description: "Node position must have numeric x and y coordinates",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      if (
+        node.position &&
+        (typeof node.position.x !== "number" ||
+          typeof node.position.y !== "number")
+      ) {
+        context.report({
+          message: "Node position must have numeric x and y coordinates",
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 节点位置重叠（node 模式下跳过）
+ *
+ * 每对重叠节点只报告一次，问题归属于后出现的节点
+ */
+export const nodePositionOverlap: LintRule = {
+  meta: {
+    code: "node-position-overlap",
+    description: "Nodes should not overlap on the canvas",
+    severity: "warning",
+    modes: ["flow"],
+  },
+  check(context) {
+    const nodes = context.flow.nodes;
+    const rects = nodes.map((node) =>
+      node?.id ? getNodeRect(node) : undefined
+    );
+    findOverlappingPairs(rects).forEach(([otherIndex, index]) => {
+      const node = nodes[index];
+      const otherNode = nodes[otherIndex];
+      if (node.id === otherNode.id) {
+        return;
+      }
+      // 将后出现的节点移到另一节点下方
+      const otherRect = rects[otherIndex] as Rect;
+      context.report({
+        message: `Node overlaps with node ${otherNode.id}`,
+        elementId: node.id,
+        elementType: "node",
+        fix: {
+          description: `Move node below node ${otherNode.id}`,
+          operations: [
+            {
+              op: "replace",
+              path: toPointer("nodes", index, "position"),
+              value: {
+                x: node.position.x,
+                y: otherRect.y + otherRect.height + OVERLAP_NUDGE_GAP,
+              },
+            },
+          ],
+        },
+      });
+    });
+  },
+};
+
+export const nodeRules: LintRule[] = [
+  missingNodeId,
+  duplicateNodeId,
+  missingNodeType,
+  invalidNodeType,
+  missingNodePosition,
+  invalidNodePosition,
+  nodePositionOverlap,
+];
@@ -0,0 +1,53 @@
+import { LintRule } from "../types/lint";
+
+/**
+ * 规则注册表
+ *
+ * 以规则 code 为键保存规则，注册同 code 的规则会覆盖已有规则（保留原有执行顺序）
+ */
+export class RuleRegistry {
+  private rules = new Map<string, LintRule>();
+
+  constructor(rules: LintRule[] = []) {
+    rules.forEach((rule) => this.register(rule));
+  }
+
+  /**
+   * 注册规则
+   */
+  register(rule: LintRule): this {
+    if (!rule?.meta?.code) {
+      throw new Error("Lint rule must have a meta.code");
+    }
+    if (typeof rule.check !== "function") {
+      throw new Error(`Lint rule ${rule.meta.code} must have a check function`);
+    }
+    this.rules.set(rule.meta.code, rule);
+    return this;
+  }
+
+  /**
+   * 移除规则
+   */
+  unregister(code: string): boolean {
+    return this.rules.delete(code);
+  }
+
+  /**
+   * 获取规则
+   */
+  get(code: string): LintRule | undefined {
+    return this.rules.get(code);
+  }
+
+  has(code: string): boolean {
+    return this.rules.has(code);
+  }
+
+  /**
+   * 按注册顺序获取所有规则
+   */
+  getAll(): LintRule[] {
+    return Array.from(this.rules.values());
+  }
+}
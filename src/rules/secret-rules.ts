@@ -0,0 +1,118 @@
+import { LintRule } from "../types/lint";
+import {
+  findSecretsInValue,
+  getPrivateKeyChain,
+  isPrivateKeyFormat,
+  isSecretInput,
+} from "../secrets";
+import { forEachNode, getNodeVersion, isEmptyValue } from "./utils";
+
+// 私钥消息中的链名称
+const CHAIN_NAMES: Record<string, string> = {
+  evm: "EVM",
+  aptos: "Aptos",
+  sui: "Sui",
+  solana: "Solana",
+  bitcoin: "Bitcoin",
+};
+
+/**
+ * 凭证类输入中保存了明文凭证（分享或发布前需要 redactSecrets）
+ *
+ * 符合所选链私钥格式的 private_key 报告为错误，其余凭证（API 密钥、格式不符的私钥）报告为警告
+ */
+export const plaintextSecret: LintRule = {
+  meta: {
+    code: "plaintext-secret",
+    description:
+      "Credential inputs hold plaintext secrets that must be redacted before sharing",
+    severity: "warning",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      const definition = context.getNodeDefinition(
+        node.type,
+        getNodeVersion(node)
+      );
+      const inputs = node.data?.inputs || [];
+      const chain = inputs.find((input) => input.id === "chain")?.value;
+
+      inputs.forEach((input) => {
+        if (
+          !input?.id ||
+          typeof input.value !== "string" ||
+          isEmptyValue(input.value) ||
+          !isSecretInput(input, definition)
+        ) {
+          return;
+        }
+
+        const report = {
+          elementId: node.id,
+          elementType: "node" as const,
+          fieldId: input.id,
+          fieldType: "input" as const,
+        };
+        if (
+          input.id === "private_key" &&
+          isPrivateKeyFormat(input.value, chain)
+        ) {
+          context.report({
+            ...report,
+            message: `Input "${input.id}" contains a plaintext ${
+              CHAIN_NAMES[getPrivateKeyChain(chain)]
+            } private key`,
+            severity: "error",
+          });
+        } else {
+          context.report({
+            ...report,
+            message: `Input "${input.id}" contains a plaintext credential`,
+          });
+        }
+      });
+    });
+  },
+};
+
+/**
+ * 普通输入（如 code_node.python_code、ai_model_node.prompt）中出现疑似凭证
+ */
+export const leakedSecret: LintRule = {
+  meta: {
+    code: "leaked-secret",
+    description: "Credentials must not be pasted into non-password inputs",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      const definition = context.getNodeDefinition(
+        node.type,
+        getNodeVersion(node)
+      );
+      (node.data?.inputs || []).forEach((input) => {
+        if (!input?.id || isSecretInput(input, definition)) {
+          return;
+        }
+
+        const matches = findSecretsInValue(input.value);
+        if (matches.length > 0) {
+          const names = Array.from(new Set(matches.map((item) => item.name)));
+          context.report({
+            message: `Input "${
+              input.id
+            }" appears to contain credentials: ${names.join(", ")}`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: input.id,
+            fieldType: "input",
+          });
+        }
+      });
+    });
+  },
+};
+
+export const secretRules: LintRule[] = [plaintextSecret, leakedSecret];
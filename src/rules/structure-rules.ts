@@ -0,0 +1,27 @@
+import { LintRule } from "../types/lint";
+import {
+  STRUCTURE_ISSUE_CODE,
+  toStructureReports,
+  validateFlowStructure,
+} from "../structure";
+
+/**
+ * 工作流不符合 Essential 结构（缺少字段、类型或取值错误）
+ *
+ * 规则遍历的容器类型错误时引擎只执行本规则
+ */
+export const invalidFlowStructure: LintRule = {
+  meta: {
+    code: STRUCTURE_ISSUE_CODE,
+    description: "Flow JSON must match the Essential flow structure",
+    severity: "error",
+  },
+  check(context) {
+    toStructureReports(
+      context.flow,
+      validateFlowStructure(context.flow)
+    ).forEach((report) => context.report(report));
+  },
+};
+
+export const structureRules: LintRule[] = [invalidFlowStructure];
@@ -0,0 +1,54 @@
+import { LintRule } from "../types/lint";
+import { collectSuppressions, isValidSuppression } from "../suppressions";
+
+/**
+ * 抑制声明缺少 code 或原因（无效的抑制不会生效）
+ */
+export const invalidSuppression: LintRule = {
+  meta: {
+    code: "invalid-suppression",
+    description: "lintIgnore entries must name a rule code and give a reason",
+    severity: "warning",
+  },
+  check(context) {
+    collectSuppressions(context.flow).forEach(({ suppression, nodeId }) => {
+      if (isValidSuppression(suppression)) {
+        return;
+      }
+      const code = suppression?.code ? `'${suppression.code}'` : "without code";
+      context.report({
+        message: `Suppression ${code} must have a non-empty code and reason; it is ignored`,
+        ...(nodeId && { elementId: nodeId, elementType: "node" as const }),
+      });
+    });
+  },
+};
+
+/**
+ * 抑制声明没有命中任何问题（在其他规则之后执行）
+ */
+export const unusedSuppression: LintRule = {
+  meta: {
+    code: "unused-suppression",
+    description: "lintIgnore entries should suppress at least one issue",
+    severity: "warning",
+    runLast: true,
+  },
+  check(context) {
+    context.getUnusedSuppressions().forEach(({ suppression, nodeId, path }) => {
+      context.report({
+        message: `Suppression of '${suppression.code}' does not match any issue`,
+        ...(nodeId && { elementId: nodeId, elementType: "node" as const }),
+        fix: {
+          description: `Remove unused suppression of '${suppression.code}'`,
+          operations: [{ op: "remove", path }],
+        },
+      });
+    });
+  },
+};
+
+export const suppressionRules: LintRule[] = [
+  invalidSuppression,
+  unusedSuppression,
+];
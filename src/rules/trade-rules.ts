@@ -0,0 +1,255 @@
+import { EssentialInput, EssentialNode, SwitchValue } from "../types/weather";
+import { LintRule, LintRuleContext } from "../types/lint";
+import {
+  forEachNode,
+  isEmptyValue,
+  isPlaceholderValue,
+  toNumber,
+} from "./utils";
+
+// 执行交易的节点类型
+export const TRADE_NODE_TYPES = ["buy_node", "sell_node", "swap_node"];
+
+// 默认滑点上限（百分比）
+export const DEFAULT_MAX_SLIPPAGE = 5;
+
+/**
+ * 遍历所有交易节点
+ */
+function forEachTradeNode(
+  context: LintRuleContext,
+  callback: (node: EssentialNode) => void
+): void {
+  forEachNode(context, (node) => {
+    if (TRADE_NODE_TYPES.includes(node.type)) {
+      callback(node);
+    }
+  });
+}
+
+/**
+ * 获取未连线且有值的输入（连线输入的值在运行时才确定）
+ */
+function getLiteralInput(
+  context: LintRuleContext,
+  node: EssentialNode,
+  inputId: string
+): EssentialInput | undefined {
+  const input = (node.data?.inputs || []).find(
+    (item) => item.id?.toLowerCase() === inputId
+  );
+  if (
+    !input ||
+    isEmptyValue(input.value) ||
+    isPlaceholderValue(input.value) ||
+    context.isInputConnected(node.id, inputId)
+  ) {
+    return undefined;
+  }
+  return input;
+}
+
+/**
+ * 交易数值：数字、数字字符串或 SwitchValue（percentage 模式为百分比，其余为绝对数量）
+ */
+function toTradeNumber(input: EssentialInput): {
+  value: number | undefined;
+  isPercentage: boolean;
+} {
+  const value = input.value;
+  if (typeof value !== "object" || value === null || !("value" in value)) {
+    return { value: toNumber(value), isPercentage: false };
+  }
+  const { mode, value: raw } = value as SwitchValue;
+  const option = (input.switchOptions || []).find(
+    (item) => item && item.value === mode
+  );
+  return {
+    value: toNumber(raw),
+    isPercentage: option
+      ? option.inputType === "percentage"
+      : mode === "percentage",
+  };
+}
+
+/**
+ * 交易数量必须是正数
+ */
+export const invalidTradeAmount: LintRule = {
+  meta: {
+    code: "invalid-trade-amount",
+    description: "Trade amounts must be positive numbers",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    const maxAmount = context.options.tradeSafety?.maxAmount;
+    forEachTradeNode(context, (node) => {
+      const input = getLiteralInput(context, node, "amount_in_human_readable");
+      if (!input) {
+        return;
+      }
+
+      const { value: amount, isPercentage } = toTradeNumber(input);
+      let message: string | undefined;
+      if (amount === undefined) {
+        message = `Trade amount must be numeric, got ${JSON.stringify(
+          input.value
+        )}`;
+      } else if (amount <= 0) {
+        message = `Trade amount must be greater than 0, got ${amount}`;
+      } else if (isPercentage && amount > 100) {
+        message = `Trade amount ${amount}% exceeds 100%`;
+      } else if (
+        !isPercentage &&
+        typeof maxAmount === "number" &&
+        amount > maxAmount
+      ) {
+        message = `Trade amount ${amount} exceeds the configured maximum of ${maxAmount}`;
+      }
+
+      if (message) {
+        context.report({
+          message,
+          elementId: node.id,
+          elementType: "node",
+          fieldId: input.id,
+          fieldType: "input",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 滑点超过配置的上限
+ */
+export const excessiveSlippage: LintRule = {
+  meta: {
+    code: "excessive-slippage",
+    description: "Trade slippage should not exceed the configured ceiling",
+    severity: "warning",
+    scope: "node",
+  },
+  check(context) {
+    const maxSlippage =
+      context.options.tradeSafety?.maxSlippage ?? DEFAULT_MAX_SLIPPAGE;
+    forEachTradeNode(context, (node) => {
+      const input = getLiteralInput(context, node, "slippery");
+      const slippage = input && toTradeNumber(input).value;
+      if (slippage !== undefined && slippage > maxSlippage) {
+        context.report({
+          message: `Slippage ${slippage}% exceeds the maximum of ${maxSlippage}%`,
+          elementId: node.id,
+          elementType: "node",
+          fieldId: input.id,
+          fieldType: "input",
+        });
+      }
+    });
+  },
+};
+
+// 各交易节点中不能相同的代币输入对
+const TOKEN_PAIRS: Record<string, [string, string]> = {
+  swap_node: ["from_token", "to_token"],
+  buy_node: ["buy_token", "base_token"],
+  sell_node: ["sell_token", "base_token"],
+};
+
+/**
+ * 代币输入的比较键：代币符号或地址（去除首尾空白、不区分大小写），其他值返回 undefined
+ */
+function toTokenKey(value: unknown): string | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+  return String(value).trim().toLowerCase() || undefined;
+}
+
+/**
+ * 交易两侧是同一种代币（只比较字符串或数字值，代币描述对象等无法比较的值跳过）
+ */
+export const sameTokenTrade: LintRule = {
+  meta: {
+    code: "same-token-trade",
+    description: "A trade must not use the same token on both sides",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachTradeNode(context, (node) => {
+      const [leftId, rightId] = TOKEN_PAIRS[node.type];
+      const left = getLiteralInput(context, node, leftId);
+      const right = getLiteralInput(context, node, rightId);
+      const leftKey = left && toTokenKey(left.value);
+      if (leftKey && right && leftKey === toTokenKey(right.value)) {
+        context.report({
+          message: `${leftId} and ${rightId} are both ${String(
+            left.value
+          ).trim()}`,
+          elementId: node.id,
+          elementType: "node",
+          fieldId: right.id,
+          fieldType: "input",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * vault 输入必须连接自 vault_node
+ */
+export const invalidVaultSource: LintRule = {
+  meta: {
+    code: "invalid-vault-source",
+    description:
+      "The vault input of trade nodes must be wired from a vault_node",
+    severity: "error",
+    scope: "node",
+    modes: ["flow"],
+  },
+  check(context) {
+    forEachTradeNode(context, (node) => {
+      const vaultEdges = context.getInputEdges(node.id, "vault");
+      if (vaultEdges.length === 0) {
+        // 缺失或无值的 vault 输入已由 missing-required-input / required-input-empty 报告
+        const input = (node.data?.inputs || []).find(
+          (item) => item?.id?.toLowerCase() === "vault"
+        );
+        if (!input || input.value === undefined || input.value === null) {
+          return;
+        }
+        context.report({
+          message: `Trade node ${node.id} vault input is not connected to a vault_node`,
+          elementId: node.id,
+          elementType: "node",
+          fieldId: "vault",
+          fieldType: "input",
+        });
+        return;
+      }
+
+      vaultEdges.forEach((edge) => {
+        const sourceNode = context.nodeMap.get(edge.source);
+        if (sourceNode && sourceNode.type !== "vault_node") {
+          context.report({
+            message: `Trade node ${node.id} vault input is connected to ${sourceNode.type} ${sourceNode.id}, expected a vault_node`,
+            elementId: node.id,
+            elementType: "node",
+            fieldId: "vault",
+            fieldType: "input",
+          });
+        }
+      });
+    });
+  },
+};
+
+export const tradeSafetyRules: LintRule[] = [
+  invalidTradeAmount,
+  excessiveSlippage,
+  sameTokenTrade,
+  invalidVaultSource,
+];
@@ -0,0 +1,147 @@
+import { EssentialNode } from "../types/weather";
+import {
+  InputMultiplicity,
+  InputSchema,
+  LintRuleContext,
+  NodeDefinition,
+} from "../types/lint";
+
+/**
+ * 获取节点版本信息（兼容写在 data 上的旧格式）
+ */
+export function getNodeVersion(node: EssentialNode): string | undefined {
+  return node.version || (node.data as any)?.version;
+}
+
+/**
+ * 遍历所有带 id 的节点（缺少 id 的节点由 missing-node-id 规则单独报告）
+ */
+export function forEachNode(
+  context: LintRuleContext,
+  callback: (node: EssentialNode, index: number) => void
+): void {
+  context.flow.nodes.forEach((node, index) => {
+    if (node?.id) {
+      callback(node, index);
+    }
+  });
+}
+
+/**
+ * 遍历所有类型已知且版本可解析的节点
+ */
+export function forEachDefinedNode(
+  context: LintRuleContext,
+  callback: (
+    node: EssentialNode,
+    definition: NodeDefinition,
+    index: number
+  ) => void
+): void {
+  forEachNode(context, (node, index) => {
+    const definition =
+      node.type && context.getNodeDefinition(node.type, getNodeVersion(node));
+    if (definition) {
+      callback(node, definition, index);
+    }
+  });
+}
+
+/**
+ * 获取节点定义中某个输入的 schema（大小写不敏感匹配）
+ */
+export function getInputSchema(
+  definition: NodeDefinition,
+  inputId: string
+): InputSchema | undefined {
+  if (!definition.inputSchemas) {
+    return undefined;
+  }
+  const inputIdLower = inputId.toLowerCase();
+  const key = Object.keys(definition.inputSchemas).find(
+    (schemaKey) => schemaKey.toLowerCase() === inputIdLower
+  );
+  return key ? definition.inputSchemas[key] : undefined;
+}
+
+/**
+ * 获取节点定义中某个输入允许的连线数量（大小写不敏感匹配，默认 single）
+ */
+export function getInputMultiplicity(
+  definition: NodeDefinition,
+  inputId: string
+): InputMultiplicity {
+  const multiplicity = definition.inputMultiplicity || {};
+  const inputIdLower = inputId.toLowerCase();
+  const key = Object.keys(multiplicity).find(
+    (inputKey) => inputKey.toLowerCase() === inputIdLower
+  );
+  return key ? multiplicity[key] : "single";
+}
+
+/**
+ * 去除句柄的 -handle 后缀（前端使用 field_name-handle 格式）
+ */
+export function stripHandleSuffix(handle: string): string {
+  return handle.endsWith("-handle") ? handle.slice(0, -7) : handle;
+}
+
+/**
+ * 前端连接状态的占位符不是真实值
+ */
+export function isPlaceholderValue(value: unknown): boolean {
+  return value === "RECEIVING INPUT" || value === "RECEIVING_INPUT";
+}
+
+/**
+ * 将数字或数字字符串转换为数字，无法转换时返回 undefined
+ */
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * 检查值是否为空
+ */
+export function isEmptyValue(value: unknown): boolean {
+  // null 或 undefined
+  if (value === null || value === undefined) {
+    return true;
+  }
+
+  // "RECEIVING INPUT" 不算空值（前端连接状态的占位符）
+  if (isPlaceholderValue(value)) {
+    return false;
+  }
+
+  // 空字符串
+  if (typeof value === "string" && value.trim() === "") {
+    return true;
+  }
+
+  // 空数组
+  if (Array.isArray(value) && value.length === 0) {
+    return true;
+  }
+
+  // 空对象（但排除有意义的对象如 Date）
+  if (typeof value === "object" && !Array.isArray(value)) {
+    // 排除 Date 等特殊对象
+    if (value instanceof Date || value instanceof RegExp) {
+      return false;
+    }
+    // 空对象 {}
+    if (Object.keys(value).length === 0) {
+      return true;
+    }
+  }
+
+  return false;
+}
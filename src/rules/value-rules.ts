@@ -0,0 +1,84 @@
+import { LintRule, LintRuleContext } from "../types/lint";
+import {
+  ValueProblem,
+  validateInputValue,
+  validateSchemaValue,
+} from "../value-validation";
+import { forEachNode, getInputSchema, getNodeVersion } from "./utils";
+
+/**
+ * 遍历所有未连线输入的值校验问题（已连线的输入值由上游提供）
+ *
+ * 先按输入自身声明的 type / inputType 校验，再按节点定义中的 inputSchemas 校验
+ */
+function forEachValueProblem(
+  context: LintRuleContext,
+  kind: ValueProblem["kind"],
+  callback: (nodeId: string, inputId: string, problem: ValueProblem) => void
+): void {
+  forEachNode(context, (node) => {
+    const definition =
+      node.type && context.getNodeDefinition(node.type, getNodeVersion(node));
+    (node.data?.inputs || []).forEach((input) => {
+      if (!input?.id || context.isInputConnected(node.id, input.id)) {
+        return;
+      }
+      const schema = definition && getInputSchema(definition, input.id);
+      const problem =
+        validateInputValue(input) ||
+        (schema &&
+          validateSchemaValue(input.value, schema, `Input "${input.id}"`));
+      if (problem && problem.kind === kind) {
+        callback(node.id, input.id, problem);
+      }
+    });
+  });
+}
+
+/**
+ * 输入值类型不符合 type / inputType
+ */
+export const invalidInputValue: LintRule = {
+  meta: {
+    code: "invalid-input-value",
+    description: "Input values must match their declared type",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachValueProblem(context, "type", (nodeId, inputId, problem) => {
+      context.report({
+        message: problem.message,
+        elementId: nodeId,
+        elementType: "node",
+        fieldId: inputId,
+        fieldType: "input",
+      });
+    });
+  },
+};
+
+/**
+ * 输入值超出 min/max 范围
+ */
+export const inputValueOutOfRange: LintRule = {
+  meta: {
+    code: "input-value-out-of-range",
+    description: "Numeric input values must respect their min/max bounds",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachValueProblem(context, "range", (nodeId, inputId, problem) => {
+      context.report({
+        message: problem.message,
+        elementId: nodeId,
+        elementType: "node",
+        fieldId: inputId,
+        fieldType: "input",
+      });
+    });
+  },
+};
+
+export const valueRules: LintRule[] = [invalidInputValue, inputValueOutOfRange];
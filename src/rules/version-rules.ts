@@ -0,0 +1,174 @@
+import { EssentialNode } from "../types/weather";
+import { LintRule } from "../types/lint";
+import { toPointer } from "../fixes";
+import { forEachNode, getNodeVersion } from "./utils";
+
+/**
+ * 验证版本语法
+ */
+export function validateVersionSyntax(version: string): {
+  isValid: boolean;
+  error?: string;
+} {
+  if (!version || typeof version !== "string") {
+    return { isValid: false, error: "Version specification is required" };
+  }
+
+  // 定义有效的版本模式
+  const patterns = {
+    exact: /^\d+\.\d+\.\d+(-[a-zA-Z0-9.-]+)?(\+[a-zA-Z0-9.-]+)?$/, // 1.2.3, 1.2.3-beta.1
+    latest: /^latest(-[a-zA-Z]+)?$/, // latest, latest-beta
+    caret: /^\^\d+\.\d+\.\d+$/, // ^1.2.0
+    tilde: /^~\d+\.\d+\.\d+$/, // ~1.2.0
+    comparison: /^(>=?|<=?|>|<)\d+\.\d+\.\d+$/, // >=1.0.0, <2.0.0
+  };
+
+  // 检查是否匹配任何有效模式
+  for (const pattern of Object.values(patterns)) {
+    if (pattern.test(version)) {
+      return { isValid: true };
+    }
+  }
+
+  return {
+    isValid: false,
+    error: `Invalid version specification: '${version}'. Expected format: '1.2.3', 'latest', '^1.2.0', '~1.2.0', etc.`,
+  };
+}
+
+/**
+ * 节点未指定版本
+ */
+export const missingNodeVersion: LintRule = {
+  meta: {
+    code: "missing-node-version",
+    description: "Nodes should pin a version instead of relying on 'latest'",
+    severity: "warning",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node, index) => {
+      if (!getNodeVersion(node)) {
+        context.report({
+          message: "No version specified, using default: 'latest'",
+          elementId: node.id,
+          elementType: "node",
+          fix: {
+            description: "Pin node version to 'latest'",
+            operations: [
+              {
+                op: "add",
+                path: toPointer("nodes", index, "version"),
+                value: "latest",
+              },
+            ],
+          },
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 版本语法无效
+ */
+export const invalidVersionSyntax: LintRule = {
+  meta: {
+    code: "invalid-version-syntax",
+    description: "Node version must be a valid version specification",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      const version = getNodeVersion(node);
+      if (!version) {
+        return;
+      }
+
+      const versionValidation = validateVersionSyntax(version);
+      if (!versionValidation.isValid) {
+        context.report({
+          message:
+            versionValidation.error ||
+            `Invalid version specification: '${version}'`,
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 使用预发布版本
+ */
+export const prereleaseVersion: LintRule = {
+  meta: {
+    code: "prerelease-version",
+    description: "Production flows should use stable node versions",
+    severity: "warning",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      const version = getNodeVersion(node);
+      if (
+        version &&
+        validateVersionSyntax(version).isValid &&
+        version.includes("-") &&
+        !version.startsWith("latest")
+      ) {
+        context.report({
+          message: `Using prerelease version: '${version}'. Consider using a stable version for production.`,
+          elementId: node.id,
+          elementType: "node",
+        });
+      }
+    });
+  },
+};
+
+/**
+ * 节点版本范围无法解析到任何已注册的定义版本（且没有不带版本的回退定义）
+ */
+export const unsatisfiableNodeVersion: LintRule = {
+  meta: {
+    code: "unsatisfiable-node-version",
+    description:
+      "Node versions must resolve to an available node definition version",
+    severity: "error",
+    scope: "node",
+  },
+  check(context) {
+    forEachNode(context, (node) => {
+      const version = getNodeVersion(node);
+      const available = node.type ? context.getNodeVersions(node.type) : [];
+      // 语法无效的版本由 invalid-version-syntax 报告
+      if (
+        !version ||
+        available.length === 0 ||
+        !validateVersionSyntax(version).isValid ||
+        context.getNodeDefinition(node.type, version)
+      ) {
+        return;
+      }
+      context.report({
+        message: `No ${
+          node.type
+        } definition satisfies version '${version}' (available: ${available.join(
+          ", "
+        )})`,
+        elementId: node.id,
+        elementType: "node",
+      });
+    });
+  },
+};
+
+export const versionRules: LintRule[] = [
+  missingNodeVersion,
+  invalidVersionSyntax,
+  prereleaseVersion,
+  unsatisfiableNodeVersion,
+];
@@ -0,0 +1,229 @@
+import { EssentialInput, EssentialNode } from "./types/weather";
+import { NodeDefinition } from "./types/lint";
+import { createNodeRegistry, NodeRegistry } from "./node-registry";
+import { getNodeVersion } from "./rules/utils";
+
+/**
+ * 凭证模式
+ */
+export interface SecretPattern {
+  name: string;
+  pattern: RegExp;
+  verify?: (match: string) => boolean; // 对匹配结果的进一步确认，用于排除格式相同的非凭证
+}
+
+/**
+ * 疑似凭证的匹配结果
+ */
+export interface SecretMatch {
+  name: string;
+  match: string;
+}
+
+// 凭证被替换后的占位文本
+export const REDACTED_VALUE = "[REDACTED]";
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * base58 解码后的字节数，包含非 base58 字符时返回 undefined
+ */
+export function getBase58ByteLength(text: string): number | undefined {
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry === -1) {
+      return undefined;
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // 前导 1 表示前导零字节
+  const leadingZeros = text.length - text.replace(/^1+/, "").length;
+  return bytes.length + leadingZeros;
+}
+
+/**
+ * 各链私钥格式（private_key_node 按 chain 输入选择，未列出的链按 EVM 格式处理）
+ */
+export const PRIVATE_KEY_FORMATS: Record<string, RegExp[]> = {
+  evm: [/^(0x)?[0-9a-fA-F]{64}$/],
+  aptos: [/^(ed25519-priv-)?(0x)?[0-9a-fA-F]{64}$/],
+  sui: [/^suiprivkey1[02-9ac-hj-np-z]{50,}$/, /^(0x)?[0-9a-fA-F]{64}$/],
+  solana: [/^[1-9A-HJ-NP-Za-km-z]{86,88}$/, /^\[\s*\d+(\s*,\s*\d+){63}\s*\]$/],
+  bitcoin: [/^[5KL][1-9A-HJ-NP-Za-km-z]{50,51}$/],
+};
+
+/**
+ * 在普通文本中识别凭证的模式
+ */
+export const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    name: "PEM private key",
+    pattern:
+      /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )*PRIVATE KEY-----|$)/g,
+  },
+  {
+    name: "hex private key",
+    pattern:
+      /(?<=(?:priv(?:ate)?[_ -]?key|secret|pk)["']?\s*[:=]?\s*["']?)(?:0x)?[0-9a-fA-F]{64}\b/gi,
+  },
+  {
+    name: "Aptos private key",
+    pattern: /ed25519-priv-(?:0x)?[0-9a-fA-F]{64}/g,
+  },
+  { name: "Sui private key", pattern: /suiprivkey1[02-9ac-hj-np-z]{50,}/g },
+  // 交易签名等 base58 数据格式相近，只匹配整个输入值并要求解码为 64 字节的密钥对
+  {
+    name: "Solana private key",
+    pattern: /^\s*[1-9A-HJ-NP-Za-km-z]{86,88}\s*$/g,
+    verify: (match) => getBase58ByteLength(match.trim()) === 64,
+  },
+  { name: "OpenAI API key", pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  { name: "AWS access key", pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+  { name: "Telegram bot token", pattern: /\b\d{8,10}:[A-Za-z0-9_-]{35}\b/g },
+  {
+    name: "API secret",
+    pattern:
+      /(?<=(?:api[_-]?secret|secret[_-]?key|api[_-]?key|passphrase)["']?\s*[:=]\s*["'])[^"'\s]{16,}(?=["'])/gi,
+  },
+];
+
+/**
+ * 在文本中查找疑似凭证
+ */
+export function findSecrets(text: string): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  SECRET_PATTERNS.forEach(({ name, pattern, verify }) => {
+    (text.match(new RegExp(pattern.source, pattern.flags)) || [])
+      .filter((match) => !verify || verify(match))
+      .forEach((match) => matches.push({ name, match }));
+  });
+  return matches;
+}
+
+/**
+ * 私钥格式对应的链（PRIVATE_KEY_FORMATS 的键；chain 不是已知链名时为 evm，如数字链 id）
+ */
+export function getPrivateKeyChain(chain?: unknown): string {
+  const key = typeof chain === "string" ? chain.trim().toLowerCase() : "";
+  return Object.prototype.hasOwnProperty.call(PRIVATE_KEY_FORMATS, key)
+    ? key
+    : "evm";
+}
+
+/**
+ * 检查私钥是否符合指定链的格式
+ */
+export function isPrivateKeyFormat(value: string, chain?: unknown): boolean {
+  return PRIVATE_KEY_FORMATS[getPrivateKeyChain(chain)].some((format) =>
+    format.test(value.trim())
+  );
+}
+
+/**
+ * 检查输入是否为凭证类输入（password 控件或节点定义中标记为 secret）
+ */
+export function isSecretInput(
+  input: EssentialInput,
+  definition?: NodeDefinition
+): boolean {
+  if (input.inputType === "password" || input.type === "password") {
+    return true;
+  }
+  const inputIdLower = input.id?.toLowerCase();
+  const schemas = definition?.inputSchemas || {};
+  return Object.keys(schemas).some(
+    (key) => key.toLowerCase() === inputIdLower && schemas[key].secret
+  );
+}
+
+// 对象中表示凭证的键名
+const SECRET_KEY_PATTERN =
+  /^(?:api[_-]?secret|secret[_-]?key|api[_-]?key|passphrase|priv(?:ate)?[_-]?key)$/i;
+
+/**
+ * 在任意输入值中查找疑似凭证（对象和数组按 JSON 文本检查）
+ */
+export function findSecretsInValue(value: unknown): SecretMatch[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return findSecrets(
+    typeof value === "string" ? value : JSON.stringify(value) || ""
+  );
+}
+
+/**
+ * 递归替换值中的疑似凭证
+ */
+function redactValue(value: unknown, key?: string): unknown {
+  if (typeof value === "string" && key && SECRET_KEY_PATTERN.test(key)) {
+    return value ? REDACTED_VALUE : value;
+  }
+  if (typeof value === "string") {
+    return SECRET_PATTERNS.reduce(
+      (text, { pattern, verify }) =>
+        text.replace(new RegExp(pattern.source, pattern.flags), (match) =>
+          !verify || verify(match) ? REDACTED_VALUE : match
+        ),
+      value
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value).reduce<Record<string, unknown>>((result, key) => {
+      result[key] = redactValue((value as Record<string, unknown>)[key], key);
+      return result;
+    }, {});
+  }
+  return value;
+}
+
+/**
+ * 返回脱敏后的工作流副本，用于分享或发布
+ *
+ * - 凭证类输入的值被清空
+ * - 其他输入中的疑似凭证被替换为 [REDACTED]
+ */
+export function redactSecrets<T extends { nodes: EssentialNode[] }>(
+  flow: T,
+  nodeRegistry: NodeRegistry = createNodeRegistry()
+): T {
+  return {
+    ...flow,
+    nodes: (flow.nodes || []).map((node) => {
+      if (!node?.data?.inputs) {
+        return node;
+      }
+      const definition = nodeRegistry.get(node.type, getNodeVersion(node));
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          inputs: node.data.inputs.map((input) => {
+            if (input.value === undefined || input.value === null) {
+              return input;
+            }
+            return {
+              ...input,
+              value: isSecretInput(input, definition)
+                ? ""
+                : redactValue(input.value),
+            };
+          }),
+        },
+      };
+    }),
+  };
+}
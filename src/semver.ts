@@ -0,0 +1,160 @@
+/**
+ * 语义化版本（只支持节点版本使用的语法子集）
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[]; // 预发布标识，如 1.2.0-beta.1 为 ["beta", "1"]
+}
+
+const VERSION_PATTERN =
+  /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+const RANGE_PATTERN = /^(\^|~|>=|<=|>|<)?(.+)$/;
+const LATEST_PATTERN = /^latest(?:-([a-zA-Z]+))?$/;
+
+/**
+ * 解析版本号，无效时返回 undefined（构建元数据被忽略）
+ */
+export function parseVersion(version: string): SemVer | undefined {
+  const match = VERSION_PATTERN.exec(version);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+/**
+ * 比较预发布标识：数字按数值比较且低于字母标识，前缀相同时较短的更小
+ */
+function comparePrerelease(a: string[], b: string[]): number {
+  // 没有预发布标识的版本更高
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) {
+      const diff = Number(a[i]) - Number(b[i]);
+      if (diff !== 0) {
+        return diff;
+      }
+    } else if (aNumeric !== bNumeric) {
+      return aNumeric ? -1 : 1;
+    } else if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * 比较两个已解析的版本，返回负数、0 或正数
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+/**
+ * 比较两个版本号字符串（无效版本排在最前）
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) {
+    return (parsedA ? 1 : 0) - (parsedB ? 1 : 0);
+  }
+  return compareSemVer(parsedA, parsedB);
+}
+
+/**
+ * 版本是否满足范围
+ *
+ * 支持 1.2.3、^1.2.3、~1.2.3、>=1.2.3 等比较运算符以及 latest / latest-<tag>；
+ * 范围（非精确版本）不匹配预发布版本，latest-<tag> 额外匹配该标签的预发布版本
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return false;
+  }
+
+  const latest = LATEST_PATTERN.exec(range);
+  if (latest) {
+    return parsed.prerelease.length === 0 || parsed.prerelease[0] === latest[1];
+  }
+
+  const [, operator = "", base] = RANGE_PATTERN.exec(range) || [];
+  const target = base ? parseVersion(base) : undefined;
+  if (!target) {
+    return false;
+  }
+  if (!operator) {
+    return compareSemVer(parsed, target) === 0;
+  }
+  if (parsed.prerelease.length > 0) {
+    return false;
+  }
+
+  const diff = compareSemVer(parsed, target);
+  switch (operator) {
+    case "^":
+      // ^1.2.3 := >=1.2.3 <2.0.0，^0.2.3 := >=0.2.3 <0.3.0，^0.0.3 := 0.0.3
+      if (diff < 0) {
+        return false;
+      }
+      if (target.major > 0) {
+        return parsed.major === target.major;
+      }
+      if (target.minor > 0) {
+        return parsed.major === 0 && parsed.minor === target.minor;
+      }
+      return diff === 0;
+    case "~":
+      return (
+        diff >= 0 &&
+        parsed.major === target.major &&
+        parsed.minor === target.minor
+      );
+    case ">=":
+      return diff >= 0;
+    case "<=":
+      return diff <= 0;
+    case ">":
+      return diff > 0;
+    case "<":
+      return diff < 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 返回满足范围的最高版本
+ *
+ * latest 在只有预发布版本时退回到最高的预发布版本
+ */
+export function maxSatisfying(
+  versions: string[],
+  range: string
+): string | undefined {
+  const sorted = versions
+    .filter((version) => parseVersion(version))
+    .sort(compareVersions);
+  const matched = sorted.filter((version) => satisfies(version, range));
+  if (matched.length > 0) {
+    return matched[matched.length - 1];
+  }
+  return range === "latest" ? sorted[sorted.length - 1] : undefined;
+}
@@ -0,0 +1,133 @@
+import { EssentialNode } from "./types/weather";
+
+// 节点未提供 width / height 时使用的默认尺寸
+export const NODE_WIDTH = 100;
+export const NODE_HEIGHT = 50;
+
+// 覆盖网格单元超过该数量的矩形不进入网格，直接与所有矩形比较
+const MAX_CELLS_PER_RECT = 64;
+
+/**
+ * 画布上的矩形区域
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 获取节点在画布上占据的矩形（优先使用编辑器节点的 width / height），坐标无效时返回 undefined
+ */
+export function getNodeRect(
+  node: EssentialNode & { width?: number; height?: number }
+): Rect | undefined {
+  const x = node?.position?.x;
+  const y = node?.position?.y;
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    return undefined;
+  }
+  const isSize = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value > 0;
+  return {
+    x,
+    y,
+    width: isSize(node.width) ? node.width : NODE_WIDTH,
+    height: isSize(node.height) ? node.height : NODE_HEIGHT,
+  };
+}
+
+/**
+ * 检查两个矩形是否重叠（仅边缘相接不算重叠）
+ */
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+  return (
+    a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y
+  );
+}
+
+/**
+ * 查找所有互相重叠的矩形对，返回索引对 [i, j]（i < j），按 j、i 升序排列
+ *
+ * 使用均匀网格：每个矩形登记到覆盖的网格单元，只比较同一单元内的矩形；
+ * 一对矩形只在其交集左上角所在的单元中计数，避免跨多个单元时重复报告
+ */
+export function findOverlappingPairs(
+  rects: Array<Rect | undefined>
+): Array<[number, number]> {
+  const indexed = rects
+    .map((rect, index) => ({ rect, index }))
+    .filter((item): item is { rect: Rect; index: number } => !!item.rect);
+  if (indexed.length < 2) {
+    return [];
+  }
+
+  // 网格单元取平均节点尺寸，常见布局下每个单元只有少量节点
+  const cellWidth =
+    indexed.reduce((sum, { rect }) => sum + rect.width, 0) / indexed.length;
+  const cellHeight =
+    indexed.reduce((sum, { rect }) => sum + rect.height, 0) / indexed.length;
+  const cellOf = (x: number, y: number) =>
+    `${Math.floor(x / cellWidth)},${Math.floor(y / cellHeight)}`;
+
+  const grid = new Map<string, number[]>();
+  const oversized: number[] = [];
+  indexed.forEach(({ rect, index }) => {
+    const minX = Math.floor(rect.x / cellWidth);
+    const maxX = Math.floor((rect.x + rect.width) / cellWidth);
+    const minY = Math.floor(rect.y / cellHeight);
+    const maxY = Math.floor((rect.y + rect.height) / cellHeight);
+    if ((maxX - minX + 1) * (maxY - minY + 1) > MAX_CELLS_PER_RECT) {
+      oversized.push(index);
+      return;
+    }
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const key = `${cx},${cy}`;
+        const cell = grid.get(key);
+        if (cell) {
+          cell.push(index);
+        } else {
+          grid.set(key, [index]);
+        }
+      }
+    }
+  });
+
+  const pairs: Array<[number, number]> = [];
+  grid.forEach((cell, key) => {
+    for (let a = 0; a < cell.length; a++) {
+      for (let b = a + 1; b < cell.length; b++) {
+        const first = rects[cell[a]] as Rect;
+        const second = rects[cell[b]] as Rect;
+        if (
+          rectsOverlap(first, second) &&
+          cellOf(Math.max(first.x, second.x), Math.max(first.y, second.y)) ===
+            key
+        ) {
+          pairs.push([cell[a], cell[b]]);
+        }
+      }
+    }
+  });
+
+  const oversizedSet = new Set(oversized);
+  oversized.forEach((index) => {
+    indexed.forEach(({ rect, index: other }) => {
+      // 两个都是超大矩形时只在较小索引一侧比较一次
+      if (
+        other !== index &&
+        !(oversizedSet.has(other) && other < index) &&
+        rectsOverlap(rects[index] as Rect, rect)
+      ) {
+        pairs.push(index < other ? [index, other] : [other, index]);
+      }
+    });
+  });
+
+  return pairs.sort((p, q) => p[1] - q[1] || p[0] - q[0]);
+}
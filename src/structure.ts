@@ -0,0 +1,410 @@
+import {
+  EssentialEdge,
+  EssentialFlow,
+  EssentialInput,
+  EssentialNode,
+  EssentialNodeData,
+  EssentialOutput,
+  LintSuppression,
+  NodeCollection,
+  Position,
+  SwitchOption,
+  ValidationError,
+  ValidationResult,
+} from "./types/weather";
+import { FlowData, LintReport } from "./types/lint";
+import { toPointer } from "./fixes";
+import { createSharedContext } from "./rules/context";
+import { stripHandleSuffix } from "./rules/utils";
+
+// 结构问题在 lint 结果中使用的 code
+export const STRUCTURE_ISSUE_CODE = "invalid-flow-structure";
+
+/**
+ * 结构问题
+ * - missing: 缺少必需字段
+ * - type: 字段的 JSON 类型不正确
+ * - value: 字段类型正确但取值不在允许范围内
+ */
+export interface StructureProblem {
+  kind: "missing" | "type" | "value";
+  path: string; // 相对工作流的 JSON Pointer，如 /nodes/0/data/inputs
+  message: string;
+  blocking?: boolean; // 规则遍历的容器或匹配句柄的字段类型错误，无法执行语义规则
+}
+
+// 语义规则遍历的容器（nodes、edges 及其元素，节点的 data、inputs、outputs 及其元素），
+// 以及规则按字符串匹配句柄的字段（输入输出 id、边的句柄）
+const BLOCKING_PATH =
+  /^(\/nodes(\/\d+(\/data(\/(inputs|outputs)(\/\d+(\/id)?)?)?)?)?|\/edges(\/\d+(\/(sourceHandle|targetHandle))?)?)?$/;
+
+export type JsonType = "string" | "number" | "boolean" | "object" | "array";
+
+/**
+ * 字段声明（结构校验与 JSON Schema 共用）
+ */
+export interface FieldSpec {
+  type?: JsonType; // 未声明时不限制类型
+  required?: boolean; // Essential 类型中的必需字段
+  enum?: string[];
+  of?: EssentialStructureName; // 对象字段或数组元素的结构
+  description?: string;
+  // 结构校验中的处理：type-only 不报告缺失（由专门规则报告，或 FlowData 中可省略），skip 完全交给专门规则
+  lint?: "type-only" | "skip";
+}
+
+type FieldSpecs<T> = Record<keyof T, FieldSpec>;
+
+const NODE_COLLECTIONS: NodeCollection[] = [
+  "input",
+  "compute",
+  "trade",
+  "core",
+];
+
+// 按 Essential 类型的字段声明，键与 weather.ts 中的接口保持一致（由类型检查保证）
+const FLOW_FIELDS: FieldSpecs<EssentialFlow> = {
+  name: { type: "string", required: true, lint: "type-only" },
+  thumbnailUrl: { type: "string" },
+  nodes: { type: "array", required: true, of: "EssentialNode" },
+  edges: { type: "array", required: true, of: "EssentialEdge" },
+  lintIgnore: { type: "array", of: "LintSuppression" },
+};
+
+const NODE_FIELDS: FieldSpecs<EssentialNode> = {
+  id: { type: "string", required: true, lint: "type-only" },
+  type: { type: "string", required: true, lint: "type-only" },
+  version: { type: "string", description: "Semver range or 'latest'" },
+  position: {
+    type: "object",
+    required: true,
+    of: "Position",
+    lint: "type-only",
+  },
+  data: { type: "object", required: true, of: "EssentialNodeData" },
+  lintIgnore: { type: "array", of: "LintSuppression" },
+};
+
+const NODE_DATA_FIELDS: FieldSpecs<EssentialNodeData> = {
+  title: { type: "string", required: true },
+  description: { type: "string", required: true },
+  collection: { type: "string", required: true, enum: NODE_COLLECTIONS },
+  inputs: { type: "array", required: true, of: "EssentialInput" },
+  outputs: { type: "array", required: true, of: "EssentialOutput" },
+};
+
+const INPUT_FIELDS: FieldSpecs<EssentialInput> = {
+  id: { type: "string", required: true, lint: "type-only" },
+  title: { type: "string", required: true },
+  type: { type: "string", required: true },
+  inputType: { type: "string", required: true },
+  required: { type: "boolean" },
+  placeholder: { type: "string" },
+  value: {},
+  min: { type: "number" },
+  max: { type: "number" },
+  skipUserValueRestore: { type: "boolean" },
+  switchOptions: { type: "array", of: "SwitchOption" },
+  advanced: { type: "boolean" },
+  isHidden: { type: "boolean" },
+};
+
+const OUTPUT_FIELDS: FieldSpecs<EssentialOutput> = {
+  id: { type: "string", required: true, lint: "type-only" },
+  title: { type: "string", required: true },
+  type: { type: "string", required: true },
+  description: { type: "string" },
+  // 由 invalid-output-isdeleted 规则检查
+  isDeleted: { type: "boolean", lint: "skip" },
+};
+
+// source / target / 句柄缺失由 edge-rules 中的专门规则报告
+const EDGE_FIELDS: FieldSpecs<EssentialEdge> = {
+  id: { type: "string", required: true },
+  source: { type: "string", required: true, lint: "type-only" },
+  target: { type: "string", required: true, lint: "type-only" },
+  sourceHandle: { type: "string", required: true, lint: "type-only" },
+  targetHandle: { type: "string", required: true, lint: "type-only" },
+};
+
+/**
+ * Essential 格式中的全部结构（position、lintIgnore 的内容由专门规则检查，结构校验不深入）
+ */
+export const ESSENTIAL_STRUCTURES = {
+  EssentialFlow: FLOW_FIELDS,
+  EssentialNode: NODE_FIELDS,
+  EssentialNodeData: NODE_DATA_FIELDS,
+  EssentialInput: INPUT_FIELDS,
+  EssentialOutput: OUTPUT_FIELDS,
+  EssentialEdge: EDGE_FIELDS,
+  Position: {
+    x: { type: "number", required: true },
+    y: { type: "number", required: true },
+  } as FieldSpecs<Position>,
+  LintSuppression: {
+    code: { type: "string", required: true },
+    reason: { type: "string", required: true },
+  } as FieldSpecs<LintSuppression>,
+  SwitchOption: {
+    value: { type: "string", required: true },
+    label: { type: "string", required: true },
+    inputType: { type: "string", required: true },
+    min: { type: "number" },
+    max: { type: "number" },
+    step: { type: "number" },
+    suffix: { type: "string" },
+  } as FieldSpecs<SwitchOption>,
+};
+
+export type EssentialStructureName = keyof typeof ESSENTIAL_STRUCTURES;
+
+/**
+ * 值的 JSON 类型（null 单独区分）
+ */
+function getJsonType(value: unknown): JsonType | "null" | "undefined" {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  const type = typeof value;
+  return type === "string" ||
+    type === "number" ||
+    type === "boolean" ||
+    type === "undefined"
+    ? type
+    : "object";
+}
+
+/**
+ * 检查对象的字段声明，返回值是否为对象（不是对象时不再检查其字段）
+ */
+function checkObject(
+  value: unknown,
+  fields: Record<string, FieldSpec>,
+  path: Array<string | number>,
+  problems: StructureProblem[]
+): value is Record<string, unknown> {
+  const actual = getJsonType(value);
+  if (actual !== "object") {
+    problems.push({
+      kind: "type",
+      path: toPointer(...path),
+      message: `expected object, got ${actual}`,
+    });
+    return false;
+  }
+
+  const record = value as Record<string, unknown>;
+  Object.keys(fields).forEach((key) => {
+    const spec = fields[key];
+    if (spec.lint === "skip") {
+      return;
+    }
+    const fieldPath = toPointer(...path, key);
+    const fieldValue = record[key];
+    const fieldType = getJsonType(fieldValue);
+    if (fieldType === "undefined") {
+      if (spec.required && spec.lint !== "type-only") {
+        problems.push({
+          kind: "missing",
+          path: fieldPath,
+          message: `missing required field "${key}"`,
+        });
+      }
+    } else if (spec.type && fieldType !== spec.type) {
+      problems.push({
+        kind: "type",
+        path: fieldPath,
+        message: `expected ${spec.type}, got ${fieldType}`,
+      });
+    } else if (spec.enum && !spec.enum.includes(fieldValue as string)) {
+      problems.push({
+        kind: "value",
+        path: fieldPath,
+        message: `expected one of ${spec.enum.join(", ")}, got ${JSON.stringify(
+          fieldValue
+        )}`,
+      });
+    }
+  });
+  return true;
+}
+
+/**
+ * 检查数组字段中的每个对象元素（字段不是数组时已由 checkObject 报告）
+ */
+function checkItems(
+  items: unknown,
+  fields: Record<string, FieldSpec>,
+  path: Array<string | number>,
+  problems: StructureProblem[],
+  callback?: (item: Record<string, unknown>, index: number) => void
+): void {
+  if (!Array.isArray(items)) {
+    return;
+  }
+  items.forEach((item, index) => {
+    if (checkObject(item, fields, [...path, index], problems) && callback) {
+      callback(item, index);
+    }
+  });
+}
+
+/**
+ * 校验工作流是否符合 Essential 结构，返回带 JSON Pointer 的结构问题（不会抛出异常）
+ *
+ * 可用于校验来自 agent 或用户的不可信 JSON
+ */
+export function validateFlowStructure(data: unknown): StructureProblem[] {
+  const problems: StructureProblem[] = [];
+  if (!checkObject(data, FLOW_FIELDS, [], problems)) {
+    return problems;
+  }
+
+  checkItems(data.nodes, NODE_FIELDS, ["nodes"], problems, (node, index) => {
+    const dataPath = ["nodes", index, "data"];
+    // data 不是对象时已在节点字段中报告
+    if (getJsonType(node.data) !== "object") {
+      return;
+    }
+    const nodeData = node.data as Record<string, unknown>;
+    checkObject(nodeData, NODE_DATA_FIELDS, dataPath, problems);
+    checkItems(
+      nodeData.inputs,
+      INPUT_FIELDS,
+      [...dataPath, "inputs"],
+      problems,
+      (input, inputIndex) =>
+        checkItems(
+          input.switchOptions,
+          ESSENTIAL_STRUCTURES.SwitchOption,
+          [...dataPath, "inputs", inputIndex, "switchOptions"],
+          problems
+        )
+    );
+    checkItems(
+      nodeData.outputs,
+      OUTPUT_FIELDS,
+      [...dataPath, "outputs"],
+      problems
+    );
+  });
+  checkItems(data.edges, EDGE_FIELDS, ["edges"], problems);
+
+  return problems.map((problem) =>
+    problem.kind === "type" && BLOCKING_PATH.test(problem.path)
+      ? { ...problem, blocking: true }
+      : problem
+  );
+}
+
+/**
+ * 是否存在阻止语义规则执行的结构问题（其余结构问题与规则问题一起报告）
+ */
+export function hasBlockingProblems(problems: StructureProblem[]): boolean {
+  return problems.some((problem) => problem.blocking);
+}
+
+/**
+ * 校验 Essential 工作流结构，返回 TYPES_GUIDE 中约定的 ValidationResult
+ */
+export function validateEssentialFlow(flow: unknown): ValidationResult {
+  const errors = validateFlowStructure(flow).map((problem) => ({
+    field: problem.path.slice(problem.path.lastIndexOf("/") + 1),
+    message: problem.message,
+    severity: "error" as const,
+    path: problem.path,
+  }));
+  return { isValid: errors.length === 0, errors, warnings: [] };
+}
+
+/**
+ * 校验边引用的节点与句柄，返回 TYPES_GUIDE 中约定的 ValidationResult
+ *
+ * 句柄匹配与 invalid-edge-*-handle 规则一致（忽略 -handle 后缀，ai_model_node 的参数句柄有效）；
+ * 结构无法遍历时返回 validateEssentialFlow 的结果
+ */
+export function validateHandleReferences(flow: unknown): ValidationResult {
+  const data = flow as FlowData;
+  if (
+    !Array.isArray(data?.nodes) ||
+    !Array.isArray(data.edges) ||
+    hasBlockingProblems(validateFlowStructure(flow))
+  ) {
+    return validateEssentialFlow(flow);
+  }
+
+  const context = createSharedContext(data, {});
+  const errors: ValidationError[] = [];
+  const fail = (index: number, field: keyof EssentialEdge, message: string) =>
+    errors.push({
+      field,
+      message: `Edge ${index}: ${message}`,
+      severity: "error",
+      path: toPointer("edges", index, field),
+    });
+
+  data.edges.forEach((edge, index) => {
+    const sourceNode = context.nodeMap.get(edge.source);
+    const targetNode = context.nodeMap.get(edge.target);
+    if (!sourceNode) {
+      fail(index, "source", `Source node '${edge.source}' not found`);
+    } else if (
+      edge.sourceHandle &&
+      !(sourceNode.data.outputs || []).some(
+        (output) => output.id === stripHandleSuffix(edge.sourceHandle)
+      )
+    ) {
+      fail(
+        index,
+        "sourceHandle",
+        `Source handle '${edge.sourceHandle}' not found in node ${edge.source}`
+      );
+    }
+    if (!targetNode) {
+      fail(index, "target", `Target node '${edge.target}' not found`);
+    } else if (
+      edge.targetHandle &&
+      !context
+        .getValidInputHandles(targetNode)
+        .includes(stripHandleSuffix(edge.targetHandle))
+    ) {
+      fail(
+        index,
+        "targetHandle",
+        `Target handle '${edge.targetHandle}' not found in node ${edge.target}`
+      );
+    }
+  });
+  return { isValid: errors.length === 0, errors, warnings: [] };
+}
+
+/**
+ * 将结构问题转换为规则上报，问题位于带 id 的节点或边内时关联到该元素
+ */
+export function toStructureReports(
+  data: FlowData,
+  problems: StructureProblem[]
+): LintReport[] {
+  return problems.map((problem) => {
+    const [, collection, index] = problem.path.split("/");
+    const element =
+      collection === "nodes" || collection === "edges"
+        ? (data[collection] as unknown[])[Number(index)]
+        : undefined;
+    const elementId = (element as { id?: unknown } | undefined)?.id;
+    return {
+      message: `Invalid flow structure at ${problem.path || "/"}: ${
+        problem.message
+      }`,
+      path: problem.path,
+      ...(typeof elementId === "string" &&
+        elementId && {
+          elementId,
+          elementType: collection === "nodes" ? "node" : "edge",
+        }),
+    } as LintReport;
+  });
+}
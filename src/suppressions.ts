@@ -0,0 +1,88 @@
+import { LintSuppression } from "./types/weather";
+import { FlowData, LintIssue, SuppressionEntry } from "./types/lint";
+import { toPointer } from "./fixes";
+
+/**
+ * 抑制声明是否有效（code 与 reason 均为非空字符串）
+ */
+export function isValidSuppression(suppression: LintSuppression): boolean {
+  return (
+    typeof suppression?.code === "string" &&
+    suppression.code.trim() !== "" &&
+    typeof suppression.reason === "string" &&
+    suppression.reason.trim() !== ""
+  );
+}
+
+/**
+ * 收集工作流与各节点上声明的抑制（包括无效的声明）
+ */
+export function collectSuppressions(flow: FlowData): SuppressionEntry[] {
+  const entries: SuppressionEntry[] = [];
+  if (Array.isArray(flow.lintIgnore)) {
+    flow.lintIgnore.forEach((suppression, index) => {
+      entries.push({ suppression, path: toPointer("lintIgnore", index) });
+    });
+  }
+  flow.nodes.forEach((node, nodeIndex) => {
+    if (!node?.id || !Array.isArray(node.lintIgnore)) {
+      return;
+    }
+    node.lintIgnore.forEach((suppression, index) => {
+      entries.push({
+        suppression,
+        nodeId: node.id,
+        path: toPointer("nodes", nodeIndex, "lintIgnore", index),
+      });
+    });
+  });
+  return entries;
+}
+
+/**
+ * 跟踪一次 lint 中的抑制命中情况
+ */
+export class SuppressionTracker {
+  private entries: SuppressionEntry[];
+  private used = new Set<SuppressionEntry>();
+  private inactiveCodes: Set<string>;
+
+  /**
+   * @param inactiveCodes 已注册但本次未执行的规则（关闭或模式不适用），其抑制不视为未使用
+   */
+  constructor(flow: FlowData, inactiveCodes: string[] = []) {
+    this.entries = collectSuppressions(flow).filter((entry) =>
+      isValidSuppression(entry.suppression)
+    );
+    this.inactiveCodes = new Set(inactiveCodes);
+  }
+
+  /**
+   * 检查问题是否被抑制，命中的抑制会被标记为已使用
+   *
+   * 节点级抑制只作用于该节点上报的问题，工作流级抑制作用于所有问题
+   */
+  suppress(issue: LintIssue): boolean {
+    const entry = this.entries.find(
+      ({ suppression, nodeId }) =>
+        suppression.code === issue.code &&
+        (nodeId === undefined ||
+          (issue.elementType !== "edge" && issue.elementId === nodeId))
+    );
+    if (!entry) {
+      return false;
+    }
+    this.used.add(entry);
+    return true;
+  }
+
+  /**
+   * 获取未命中任何问题的有效抑制
+   */
+  getUnused(): SuppressionEntry[] {
+    return this.entries.filter(
+      (entry) =>
+        !this.used.has(entry) && !this.inactiveCodes.has(entry.suppression.code)
+    );
+  }
+}
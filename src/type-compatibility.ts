@@ -0,0 +1,108 @@
+import { DataType } from "./types/weather";
+
+// 文本类输入：可接收任何能被序列化为文本的数据
+const TEXT_TYPES: DataType[] = ["text", "paragraph", "codeInput"];
+// 选择类输入：值为字符串选项
+const CHOICE_TYPES: DataType[] = [
+  "select",
+  "searchSelect",
+  "radio",
+  "radioGroup",
+];
+// 数值类输入
+const NUMERIC_TYPES: DataType[] = ["number", "percentage", "switch"];
+// 结构化数据
+const STRUCTURED_TYPES: DataType[] = [
+  "object",
+  "array",
+  "paramMatrix",
+  "multiselect",
+];
+
+/**
+ * 数据类型兼容矩阵：输出类型 -> 可连接的输入类型
+ *
+ * - "none" 表示类型未声明，与任意类型兼容，不在矩阵中列出
+ * - "object" 输入作为通用数据入口，可接收除 password 外的所有类型
+ * - password 只能连接到 password，避免密钥被当作普通文本传递
+ */
+export const DATA_TYPE_COMPATIBILITY: Record<
+  Exclude<DataType, "none">,
+  DataType[]
+> = {
+  text: [...TEXT_TYPES, ...CHOICE_TYPES, "address", "chain", "object"],
+  paragraph: [...TEXT_TYPES, "object"],
+  codeInput: [...TEXT_TYPES, "object"],
+  select: [...TEXT_TYPES, ...CHOICE_TYPES, "chain", "object"],
+  searchSelect: [...TEXT_TYPES, ...CHOICE_TYPES, "chain", "object"],
+  radio: [...TEXT_TYPES, ...CHOICE_TYPES, "object"],
+  radioGroup: [...TEXT_TYPES, ...CHOICE_TYPES, "object"],
+  number: [...NUMERIC_TYPES, ...TEXT_TYPES, "object"],
+  percentage: [...NUMERIC_TYPES, ...TEXT_TYPES, "object"],
+  switch: [...NUMERIC_TYPES, "object"],
+  boolean: ["boolean", ...TEXT_TYPES, "object"],
+  object: [...STRUCTURED_TYPES, ...TEXT_TYPES],
+  array: [...STRUCTURED_TYPES, ...TEXT_TYPES],
+  paramMatrix: [...STRUCTURED_TYPES, ...TEXT_TYPES],
+  multiselect: [...STRUCTURED_TYPES, ...TEXT_TYPES],
+  address: ["address", "wallet", ...TEXT_TYPES, ...CHOICE_TYPES, "object"],
+  chain: ["chain", ...TEXT_TYPES, ...CHOICE_TYPES, "object"],
+  wallet: ["wallet", "address", "object"],
+  password: ["password"],
+};
+
+/**
+ * 可在运行时转换的类型对：输出类型 -> 可尝试转换的输入类型
+ *
+ * 文本或结构化数据（如 ai_model_node 的回复、code_node 的输出）常被连接到数值输入，
+ * 由后端在运行时解析，不一定失败，因此只给出警告
+ */
+export const DATA_TYPE_COERCIONS: Partial<
+  Record<Exclude<DataType, "none">, DataType[]>
+> = {
+  text: NUMERIC_TYPES,
+  paragraph: NUMERIC_TYPES,
+  codeInput: NUMERIC_TYPES,
+  object: NUMERIC_TYPES,
+  array: NUMERIC_TYPES,
+};
+
+/**
+ * 检查不兼容的类型对是否可在运行时转换
+ */
+export function isDataTypeCoercible(
+  sourceType: string | undefined,
+  targetType: string | undefined
+): boolean {
+  const coercibleTypes =
+    DATA_TYPE_COERCIONS[sourceType as keyof typeof DATA_TYPE_COERCIONS];
+  return !!coercibleTypes && coercibleTypes.includes(targetType as DataType);
+}
+
+/**
+ * 检查输出类型是否可以连接到输入类型
+ *
+ * 未声明或未知的类型视为兼容（交由其他规则处理）
+ */
+export function isDataTypeCompatible(
+  sourceType: string | undefined,
+  targetType: string | undefined
+): boolean {
+  if (!sourceType || !targetType) {
+    return true;
+  }
+  if (sourceType === "none" || targetType === "none") {
+    return true;
+  }
+  if (sourceType === targetType) {
+    return true;
+  }
+
+  const compatibleTypes =
+    DATA_TYPE_COMPATIBILITY[sourceType as keyof typeof DATA_TYPE_COMPATIBILITY];
+  if (!compatibleTypes || !(targetType in DATA_TYPE_COMPATIBILITY)) {
+    return true;
+  }
+
+  return compatibleTypes.includes(targetType as DataType);
+}
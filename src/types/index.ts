@@ -4,3 +4,4 @@
  */
 
 export * from "./weather";
+export * from "./lint";
@@ -0,0 +1,239 @@
+/**
+ * Linter 类型定义
+ *
+ * 包含节点定义、lint 选项、lint 问题以及规则引擎相关类型
+ */
+
+import {
+  EssentialNode,
+  EssentialEdge,
+  LintSuppression,
+  NodeType,
+} from "./weather";
+import type { NodeRegistry } from "../node-registry";
+
+// ============================================================================
+// 节点定义
+// ============================================================================
+
+/**
+ * 输入值的基础类型
+ */
+export type InputSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "array"
+  | "object";
+
+/**
+ * 输入值 schema（声明式描述输入值的约束）
+ */
+export interface InputSchema {
+  type: InputSchemaType | InputSchemaType[]; // 多个类型时满足其一即可
+  enum?: Array<string | number | boolean>; // 可选值列表
+  caseInsensitive?: boolean; // 字符串 enum 匹配不区分大小写
+  minimum?: number; // 数值下限（包含）
+  maximum?: number; // 数值上限（包含）
+  pattern?: string; // 字符串正则
+  default?: unknown; // 默认值
+  secret?: boolean; // 凭证类输入（私钥、API 密钥等），导出时需要脱敏
+}
+
+/**
+ * 条件输入约束：当某个输入等于指定值时，要求或禁止其他输入
+ */
+export interface ConditionalInputRule {
+  when: {
+    input: string;
+    equals: unknown | unknown[]; // 数组表示等于其中任意一个
+  };
+  require?: string[]; // 条件满足时必须有值或被连线的输入
+  forbid?: string[]; // 条件满足时不能有值或被连线的输入
+  severity?: LintSeverity; // 未经后端确认的约束设为 warning，默认使用规则的严重级别
+}
+
+/**
+ * 输入允许的连线数量：single = 最多一条，many = 不限
+ */
+export type InputMultiplicity = "single" | "many";
+
+/**
+ * 节点定义（描述每种节点类型的输入输出契约）
+ */
+export interface NodeDefinition {
+  type: NodeType | string; // 内置类型之外的节点可通过 NodeRegistry 在运行时注册
+  version?: string; // 定义对应的节点版本（精确版本号），未声明时作为没有版本满足节点版本范围时的回退
+  description: string;
+  category: "input" | "compute" | "trade" | "output";
+  requiredInputs: string[];
+  optionalInputs: string[];
+  outputs: string[];
+  inputSchemas?: Record<string, InputSchema>; // 按输入 id 声明值约束
+  conditionalInputs?: ConditionalInputRule[]; // 条件必需/禁止的输入
+  inputMultiplicity?: Record<string, InputMultiplicity>; // 按输入 id 声明连线数量，默认 single
+}
+
+// ============================================================================
+// Lint 数据与选项
+// ============================================================================
+
+export interface FlowData {
+  nodes: EssentialNode[];
+  edges: EssentialEdge[];
+  lintIgnore?: LintSuppression[]; // 对整个流程生效的 lint 抑制
+}
+
+/**
+ * 执行模式：flow = 完整流程校验，node = 单节点校验
+ */
+export type LintMode = "flow" | "node";
+
+export type LintSeverity = "error" | "warning";
+
+/**
+ * 单条规则的配置："off" 关闭规则，"error" / "warning" 覆盖默认严重级别
+ */
+export type LintRuleSetting = LintSeverity | "off";
+
+/**
+ * 交易安全规则阈值
+ */
+export interface TradeSafetyOptions {
+  maxSlippage?: number; // 滑点上限（百分比），默认 5
+  maxAmount?: number; // 单笔交易绝对数量上限（不限制百分比模式的数量），默认不限制
+}
+
+export interface LintOptions {
+  strict?: boolean; // 严格模式：未显式配置为 warning 的警告提升为错误
+  mode?: LintMode;
+  ignoreNodeTypes?: string[]; // 忽略这些类型节点上的问题
+  tradeSafety?: TradeSafetyOptions;
+  rules?: Record<string, LintRuleSetting>; // 按规则 code 启用/关闭或覆盖严重级别
+  customRules?: LintRule[]; // 自定义规则（与内置规则 code 相同时覆盖内置规则）
+  nodeRegistry?: NodeRegistry; // 节点定义注册表，默认只包含内置节点
+}
+
+export interface LintIssue {
+  severity: LintSeverity;
+  message: string;
+  elementId?: string;
+  elementType?: "node" | "edge";
+  code: string;
+  fieldId?: string; // 字段级别错误：指示具体是哪个输入或输出字段
+  fieldType?: "input" | "output"; // 字段类型
+  path?: string; // 结构问题：出错字段的 JSON Pointer（如 /nodes/0/data/inputs）
+  fix?: LintFix; // 可自动应用的修复
+  related?: {
+    // 问题涉及的其他元素（如环上的节点和边），供 UI 高亮
+    nodeIds: string[];
+    edgeIds: string[];
+  };
+  fingerprint?: string; // 跨次运行稳定的问题标识（由 lintFlowDetailed 填充）
+}
+
+/**
+ * 修复操作（JSON Patch 风格，path 为相对 FlowData 的 JSON Pointer，如 /nodes/0/version）
+ */
+export interface FixOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+/**
+ * 可自动应用的修复
+ */
+export interface LintFix {
+  description: string;
+  operations: FixOperation[];
+}
+
+/**
+ * 单个文件的 lint 结果（CLI 与格式化器使用）
+ */
+export interface LintFileResult {
+  filePath: string;
+  issues: LintIssue[];
+}
+
+/**
+ * 详细 lint 结果（lintFlowDetailed 返回）
+ */
+export interface LintResult {
+  issues: LintIssue[]; // 每个问题都带 fingerprint
+  errorCount: number;
+  warningCount: number;
+  ruleCounts: Record<string, number>; // 按规则 code 统计的问题数
+  nodeIssues: Record<string, LintIssue[]>; // 按节点 id 分组的问题（不含边和流程级问题）
+  ruleTimings: Record<string, number>; // 每条规则的耗时（毫秒）
+  elapsedMs: number; // 总耗时（毫秒）
+}
+
+/**
+ * 格式化器：将 lint 结果转换为文本输出
+ */
+export type LintFormatter = (results: LintFileResult[]) => string;
+
+// ============================================================================
+// 规则引擎
+// ============================================================================
+
+/**
+ * 规则元数据
+ */
+export interface LintRuleMeta {
+  code: string; // 规则标识，同时作为 LintIssue.code
+  description: string;
+  severity: LintSeverity; // 默认严重级别
+  modes?: LintMode[]; // 规则适用的执行模式，默认全部模式
+  runLast?: boolean; // 在其他规则之后执行（依赖其他规则的结果）
+  scope?: "node"; // 只检查单个节点及其输入连线（问题的 elementId 必须是该节点），增量 lint 时仅对受影响节点重新执行
+}
+
+/**
+ * 规则上报的问题（code 由规则自动填充，severity 默认取规则元数据，fingerprint 由引擎计算）
+ */
+export type LintReport = Omit<
+  LintIssue,
+  "code" | "severity" | "fingerprint"
+> & {
+  severity?: LintSeverity;
+};
+
+/**
+ * 工作流中声明的一条抑制及其位置
+ */
+export interface SuppressionEntry {
+  suppression: LintSuppression;
+  nodeId?: string; // 未设置表示工作流级别的抑制
+  path: string; // 抑制声明的 JSON Pointer，如 /nodes/0/lintIgnore/1
+}
+
+/**
+ * 规则执行上下文
+ */
+export interface LintRuleContext {
+  flow: FlowData;
+  options: LintOptions;
+  nodeMap: Map<string, EssentialNode>;
+  getNodeDefinition(
+    nodeType: string,
+    version?: string // 节点的版本范围，类型有多个版本时据此解析
+  ): NodeDefinition | undefined;
+  getNodeVersions(nodeType: string): string[]; // 已注册的定义版本（升序）
+  getInputEdges(nodeId: string, inputId: string): EssentialEdge[];
+  isInputConnected(nodeId: string, inputId: string): boolean;
+  getValidInputHandles(node: EssentialNode): string[];
+  getUnusedSuppressions(): SuppressionEntry[]; // 仅在 runLast 规则中结果完整
+  report(issue: LintReport): void;
+}
+
+/**
+ * Lint 规则
+ */
+export interface LintRule {
+  meta: LintRuleMeta;
+  check(context: LintRuleContext): void;
+}
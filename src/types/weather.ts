@@ -199,6 +199,14 @@ export interface EssentialNodeData {
   outputs: EssentialOutput[];
 }
 
+/**
+ * Essential: lint 抑制声明（忽略指定规则报告的问题，必须说明原因）
+ */
+export interface LintSuppression {
+  code: string; // 被忽略的规则 code
+  reason: string;
+}
+
 /**
  * Essential: 节点定义
  */
@@ -208,6 +216,7 @@ export interface EssentialNode {
   type: NodeType;
   version?: string; // 节点版本，默认为 'latest'
   data: EssentialNodeData;
+  lintIgnore?: LintSuppression[]; // 仅对本节点生效的 lint 抑制
 }
 
 /**
@@ -229,6 +238,7 @@ export interface EssentialFlow {
   name: string;
   nodes: EssentialNode[];
   edges: EssentialEdge[];
+  lintIgnore?: LintSuppression[]; // 对整个工作流生效的 lint 抑制
 }
 
 // ============================================================================
@@ -0,0 +1,238 @@
+import {
+  DataType,
+  EssentialInput,
+  InputType,
+  SwitchValue,
+} from "./types/weather";
+import { InputSchema, InputSchemaType } from "./types/lint";
+import { isEmptyValue, isPlaceholderValue, toNumber } from "./rules/utils";
+
+/**
+ * 值校验问题
+ * - type: 值的类型或结构不符合输入类型
+ * - range: 值超出 min/max 范围
+ */
+export interface ValueProblem {
+  kind: "type" | "range";
+  message: string;
+}
+
+/**
+ * 值校验器：返回 undefined 表示值合法
+ */
+export type ValueValidator = (
+  value: unknown,
+  input: EssentialInput
+) => ValueProblem | undefined;
+
+/**
+ * 校验数值及其范围
+ */
+function checkNumber(
+  value: unknown,
+  label: string,
+  min?: number,
+  max?: number
+): ValueProblem | undefined {
+  const num = toNumber(value);
+  if (num === undefined) {
+    return {
+      kind: "type",
+      message: `${label} must be a number, got ${JSON.stringify(value)}`,
+    };
+  }
+  if (typeof min === "number" && num < min) {
+    return { kind: "range", message: `${label} must be >= ${min}, got ${num}` };
+  }
+  if (typeof max === "number" && num > max) {
+    return { kind: "range", message: `${label} must be <= ${max}, got ${num}` };
+  }
+  return undefined;
+}
+
+const validateNumber: ValueValidator = (value, input) =>
+  checkNumber(value, `Input "${input.id}"`, input.min, input.max);
+
+const validatePercentage: ValueValidator = (value, input) =>
+  checkNumber(value, `Input "${input.id}"`, input.min ?? 0, input.max ?? 100);
+
+const validateBoolean: ValueValidator = (value, input) =>
+  typeof value === "boolean"
+    ? undefined
+    : {
+        kind: "type",
+        message: `Input "${input.id}" must be a boolean, got ${JSON.stringify(
+          value
+        )}`,
+      };
+
+/**
+ * 校验 SwitchValue 结构，并按所选模式的 inputType 校验值
+ */
+const validateSwitch: ValueValidator = (value, input) => {
+  const switchValue = value as SwitchValue;
+  if (
+    typeof value !== "object" ||
+    Array.isArray(value) ||
+    typeof switchValue.mode !== "string" ||
+    (typeof switchValue.value !== "string" &&
+      typeof switchValue.value !== "number")
+  ) {
+    return {
+      kind: "type",
+      message: `Input "${input.id}" must be a switch value of shape { mode, value }`,
+    };
+  }
+
+  // 非对象的选项由结构校验报告（validateInputValue 也可能在结构校验之外单独调用）
+  const options = (input.switchOptions || []).filter(
+    (item) => item && typeof item === "object"
+  );
+  if (options.length === 0) {
+    return undefined;
+  }
+
+  const option = options.find((item) => item.value === switchValue.mode);
+  if (!option) {
+    return {
+      kind: "type",
+      message: `Input "${input.id}" has unknown switch mode "${
+        switchValue.mode
+      }", expected one of: ${options.map((item) => item.value).join(", ")}`,
+    };
+  }
+
+  const label = `Input "${input.id}" (${option.value})`;
+  if (option.inputType === "percentage") {
+    return checkNumber(
+      switchValue.value,
+      label,
+      option.min ?? 0,
+      option.max ?? 100
+    );
+  }
+  if (option.inputType === "number") {
+    return checkNumber(switchValue.value, label, option.min, option.max);
+  }
+  return undefined;
+};
+
+/**
+ * 按 DataType / InputType 注册的值校验器
+ */
+export const VALUE_VALIDATORS: Partial<
+  Record<DataType | InputType, ValueValidator>
+> = {
+  number: validateNumber,
+  percentage: validatePercentage,
+  boolean: validateBoolean,
+  switch: validateSwitch,
+};
+
+/**
+ * 校验输入的字面值
+ *
+ * 优先使用 inputType（UI 控件）对应的校验器，其次使用 type；
+ * 空值与 "RECEIVING INPUT" 占位符不做校验
+ */
+export function validateInputValue(
+  input: EssentialInput
+): ValueProblem | undefined {
+  if (!input || isEmptyValue(input.value) || isPlaceholderValue(input.value)) {
+    return undefined;
+  }
+
+  const validator =
+    VALUE_VALIDATORS[input.inputType] || VALUE_VALIDATORS[input.type];
+  return validator ? validator(input.value, input) : undefined;
+}
+
+/**
+ * 检查值是否满足 schema 基础类型
+ */
+function matchesSchemaType(value: unknown, type: InputSchemaType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return toNumber(value) !== undefined;
+    case "integer":
+      return Number.isInteger(toNumber(value));
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * 按节点定义中的 InputSchema 校验值
+ *
+ * 数值类型允许使用数字字符串（与前端表单存储方式一致）
+ */
+export function validateSchemaValue(
+  value: unknown,
+  schema: InputSchema,
+  label: string
+): ValueProblem | undefined {
+  if (isEmptyValue(value) || isPlaceholderValue(value)) {
+    return undefined;
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const matchedType = types.find((type) => matchesSchemaType(value, type));
+  if (!matchedType) {
+    return {
+      kind: "type",
+      message: `${label} must be of type ${types.join(
+        " | "
+      )}, got ${JSON.stringify(value)}`,
+    };
+  }
+
+  if (schema.enum) {
+    const isNumeric = matchedType === "number" || matchedType === "integer";
+    const matches = schema.enum.some((option) =>
+      isNumeric
+        ? toNumber(option) === toNumber(value)
+        : option === value ||
+          (schema.caseInsensitive === true &&
+            typeof option === "string" &&
+            typeof value === "string" &&
+            option.toLowerCase() === value.toLowerCase())
+    );
+    if (!matches) {
+      return {
+        kind: "type",
+        message: `${label} must be one of: ${schema.enum.join(
+          ", "
+        )}, got ${JSON.stringify(value)}`,
+      };
+    }
+  }
+
+  if (
+    typeof value === "string" &&
+    schema.pattern &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    return {
+      kind: "type",
+      message: `${label} must match pattern ${
+        schema.pattern
+      }, got ${JSON.stringify(value)}`,
+    };
+  }
+
+  if (matchedType === "number" || matchedType === "integer") {
+    return checkNumber(value, label, schema.minimum, schema.maximum);
+  }
+
+  return undefined;
+}